@@ -0,0 +1,530 @@
+import React, { useState, useEffect } from 'react';
+import { GameState, Difficulty, Language, GameProgress, Profile, AnswerEvent, RewardRules, GameMode, TableSelection, QuestionType, VoiceSettings, AchievementId, GameRecord, AccessibilitySettings, Assignment, HomeworkResult, ThemeId, SoundSettings } from './types';
+import { loadSaveData, saveSaveData, SAVE_VERSION } from './services/storage';
+import { addGameRecord, createProfile, normalizeProfileName } from './services/profiles';
+import { recordFactAttempt } from './services/mastery';
+import { addAnswerRecord } from './services/answerLog';
+import { evaluateAchievements, unlockAchievements } from './services/achievements';
+import { DEFAULT_REWARD_RULES, sanitizeRewardRules } from './services/rewardRules';
+import { isNewPersonalBest, RoundResult } from './services/gameModes';
+import { DEFAULT_TABLE_SELECTION, sanitizeTableSelection } from './services/tableSelection';
+import { DEFAULT_QUESTION_TYPES, sanitizeQuestionTypes } from './services/questionTypes';
+import { getVoices } from './services/speech';
+import { registerServiceWorker } from './services/serviceWorker';
+import { VersusPlayer, VersusSetup } from './services/versus';
+import { DEFAULT_VOICE_SETTINGS, sanitizeVoiceSettings } from './services/voiceSettings';
+import { DEFAULT_ACCESSIBILITY, sanitizeAccessibility, shouldReduceMotion } from './services/accessibility';
+import { DEFAULT_LANGUAGE, getLocale } from './services/i18n';
+import { createHomeworkResult, parseAssignmentHash } from './services/homework';
+import { DEFAULT_THEME, getThemeRewardName, sanitizeThemeId } from './services/themes';
+import { DEFAULT_SOUND_SETTINGS, sanitizeSoundSettings } from './services/soundSettings';
+import { setMusicPlaying, setSoundSettings } from './services/sound';
+import { LocaleContext } from './components/LocaleContext';
+import { AccessibilityContext, usePrefersReducedMotion } from './components/AccessibilityContext';
+import { ThemeContext } from './components/ThemeContext';
+import { THEMES } from './components/themes';
+import { ResetIcon, SoundOffIcon, SoundOnIcon } from './components/icons';
+import ProfileSelector from './components/ProfileSelector';
+import ParentDashboard from './components/ParentDashboard';
+import AchievementGallery from './components/AchievementGallery';
+import DifficultySelector from './components/DifficultySelector';
+import GameScreen from './components/GameScreen';
+import VictoryScreen from './components/VictoryScreen';
+import TimeUpScreen from './components/TimeUpScreen';
+import VersusSetupScreen from './components/VersusSetupScreen';
+import VersusScreen from './components/VersusScreen';
+import VersusWinnerScreen from './components/VersusWinnerScreen';
+import HomeworkResultScreen from './components/HomeworkResultScreen';
+import HomeworkTools from './components/HomeworkTools';
+
+// ============================================================================
+// APP COMPONENT
+// ============================================================================
+const App: React.FC = () => {
+  // Restore the saved profiles once, before the first render
+  const [savedData] = useState(loadSaveData);
+  const savedProfile = savedData.profiles.find(p => p.id === savedData.activeProfileId);
+  const [profiles, setProfiles] = useState<Profile[]>(savedData.profiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(savedProfile?.id ?? null);
+  // A homework link asks who is doing it before anything else
+  const [assignment, setAssignment] = useState<Assignment | null>(() => parseAssignmentHash(window.location.hash));
+  const [gameState, setGameState] = useState<GameState>(assignment ? 'selecting_profile' : savedProfile?.gameState ?? 'selecting_profile');
+  const [difficulty, setDifficulty] = useState<Difficulty>(savedProfile?.difficulty ?? Difficulty.Easy);
+  const [robuxScore, setRobuxScore] = useState<number>(savedProfile?.robuxScore ?? 0);
+  const [language, setLanguage] = useState<Language>(savedProfile?.language ?? DEFAULT_LANGUAGE);
+  const [progress, setProgress] = useState<GameProgress | null>(savedProfile?.progress ?? null);
+  const [mode, setMode] = useState<GameMode>(savedProfile?.mode ?? 'classic');
+  const [parentPin, setParentPin] = useState<string | null>(savedData.parentPin);
+  const [lastResult, setLastResult] = useState<RoundResult | null>(null);
+  // Badges waiting for their toast, oldest first
+  const [newAchievements, setNewAchievements] = useState<AchievementId[]>([]);
+  const [versusSetup, setVersusSetup] = useState<VersusSetup | null>(null);
+  // Set once a new version has been downloaded and is waiting
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [versusResult, setVersusResult] = useState<{ players: VersusPlayer[]; winner: number } | null>(null);
+  // Homework keeps its own score and progress so the player's game is left as it was
+  const [homeworkScore, setHomeworkScore] = useState(0);
+  const [homeworkProgress, setHomeworkProgress] = useState<GameProgress | null>(null);
+  const [homeworkResult, setHomeworkResult] = useState<HomeworkResult | null>(null);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const rules = activeProfile?.rules ?? DEFAULT_REWARD_RULES;
+  const tableSelection = activeProfile?.tableSelection ?? DEFAULT_TABLE_SELECTION;
+  const locale = getLocale(language);
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const accessibilitySettings = activeProfile?.accessibility ?? DEFAULT_ACCESSIBILITY;
+  const accessibility = {
+    colorBlindFeedback: accessibilitySettings.colorBlindFeedback,
+    reduceMotion: shouldReduceMotion(accessibilitySettings.motion, prefersReducedMotion),
+  };
+  const theme = THEMES[activeProfile?.theme ?? DEFAULT_THEME];
+  const soundSettings = activeProfile?.sound ?? DEFAULT_SOUND_SETTINGS;
+  const isVersus = gameState === 'versus_setup' || gameState === 'versus' || gameState === 'versus_won';
+  const isHomework = gameState === 'homework' || gameState === 'homework_done' || gameState === 'homework_tools';
+  
+  // Preload voices on app mount to ensure they are ready when the game starts
+  useEffect(() => {
+      getVoices();
+  }, []);
+
+  useEffect(() => {
+    if (import.meta.env.PROD) {
+      registerServiceWorker(apply => setApplyUpdate(() => apply));
+    }
+  }, []);
+
+  useEffect(() => {
+    setSoundSettings(soundSettings);
+  }, [soundSettings]);
+
+  // Music only plays while a game is on screen
+  useEffect(() => {
+    setMusicPlaying(gameState === 'playing' || gameState === 'homework' || gameState === 'versus');
+  }, [gameState]);
+
+  // A homework link opened while the app is already running
+  useEffect(() => {
+    const handleHashChange = () => {
+      const opened = parseAssignmentHash(window.location.hash);
+      if (opened) {
+        setAssignment(opened);
+        setGameState('selecting_profile');
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Write the current game back into the active profile. While the profile
+  // picker, parent area, badge gallery, a versus game or homework is open the profile keeps its own state so it can be resumed.
+  useEffect(() => {
+    if (!activeProfileId || gameState === 'selecting_profile' || gameState === 'parent_dashboard' || gameState === 'achievements' || isVersus || isHomework) return;
+    setProfiles(current => current.map(p => p.id !== activeProfileId ? p : {
+      ...p,
+      gameState,
+      mode,
+      difficulty,
+      language,
+      robuxScore,
+      progress: gameState === 'playing' ? progress : null,
+    }));
+  }, [activeProfileId, gameState, mode, difficulty, language, robuxScore, progress]);
+
+  // Hebrew (and any other right-to-left catalog) flips the whole page
+  useEffect(() => {
+    document.documentElement.lang = locale.speech.lang;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  useEffect(() => {
+    saveSaveData({ version: SAVE_VERSION, activeProfileId, profiles, parentPin });
+  }, [activeProfileId, profiles, parentPin]);
+
+  const updateProfile = (id: string, update: (profile: Profile) => Profile) => {
+    setProfiles(current => current.map(p => p.id === id ? update(p) : p));
+  };
+
+  const queueAchievements = (unlocked: AchievementId[]) => {
+    if (unlocked.length > 0) {
+      setNewAchievements(current => [...current, ...unlocked]);
+    }
+  };
+
+  // `result` is the number the mode's personal best compares, if the game counts for one
+  const recordGame = (won: boolean, result?: number) => {
+    if (!activeProfile) return;
+    const isNewRecord = result !== undefined && result > 0 && isNewPersonalBest(activeProfile.personalBests, mode, result);
+    const record: GameRecord = { mode, difficulty, language, robuxScore, won, finishedAt: Date.now() };
+    const history = addGameRecord(activeProfile.history, record);
+    const unlocked = evaluateAchievements({ ...activeProfile, history }, { type: 'game_end', record });
+    updateProfile(activeProfile.id, p => ({
+      ...p,
+      history,
+      personalBests: isNewRecord ? { ...p.personalBests, [mode]: result } : p.personalBests,
+      achievements: unlockAchievements(p.achievements, unlocked),
+    }));
+    queueAchievements(unlocked);
+    setLastResult(result !== undefined ? { mode, value: result, isNewRecord } : null);
+  };
+
+  const resumeProfile = (profile: Profile) => {
+    setActiveProfileId(profile.id);
+    setDifficulty(profile.difficulty);
+    setLanguage(profile.language);
+    setRobuxScore(profile.robuxScore);
+    setMode(profile.mode);
+    setProgress(profile.progress);
+    setNewAchievements([]);
+    setGameState(profile.gameState === 'selecting_profile' || profile.gameState === 'parent_dashboard' ? 'selecting_difficulty' : profile.gameState);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    resumeProfile(profile);
+    if (assignment) {
+      setHomeworkScore(0);
+      setHomeworkProgress(null);
+      setHomeworkResult(null);
+      setGameState('homework');
+    }
+  };
+
+  const handleCreateProfile = (name: string, avatar: string) => {
+    setProfiles(current => [...current, createProfile(name, avatar)]);
+  };
+
+  const handleRenameProfile = (id: string, name: string, avatar: string) => {
+    updateProfile(id, p => ({ ...p, name: normalizeProfileName(name) || p.name, avatar }));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    setProfiles(current => current.filter(p => p.id !== id));
+    if (id === activeProfileId) {
+      setActiveProfileId(null);
+    }
+  };
+
+  const handleAnswer = (answer: AnswerEvent) => {
+    if (!activeProfile) return;
+    const mastery = recordFactAttempt(activeProfile.mastery, answer.num1, answer.num2, answer.correct, answer.responseMs);
+    const session = gameState === 'homework' ? homeworkProgress : progress;
+    const answers = addAnswerRecord(activeProfile.answers, answer, session?.sessionStartedAt ?? Date.now());
+    const unlocked = evaluateAchievements({ ...activeProfile, mastery, answers }, { type: 'answer', answer: answers[answers.length - 1] });
+    updateProfile(activeProfile.id, p => ({
+      ...p,
+      mastery,
+      answers,
+      achievements: unlockAchievements(p.achievements, unlocked),
+    }));
+    queueAchievements(unlocked);
+  };
+
+  const handleAchievementToastDone = () => {
+    setNewAchievements(current => current.slice(1));
+  };
+
+  const handleUpdateRules = (id: string, updatedRules: RewardRules) => {
+    updateProfile(id, p => ({ ...p, rules: sanitizeRewardRules(updatedRules) }));
+  };
+
+  const handleUpdateQuestionTypes = (id: string, questionTypes: QuestionType[]) => {
+    updateProfile(id, p => ({ ...p, questionTypes: sanitizeQuestionTypes(questionTypes) }));
+  };
+
+  const handleUpdateVoiceSettings = (id: string, voice: VoiceSettings) => {
+    updateProfile(id, p => ({ ...p, voice: sanitizeVoiceSettings(voice) }));
+  };
+
+  const handleUpdateSoundSettings = (id: string, sound: SoundSettings) => {
+    updateProfile(id, p => ({ ...p, sound: sanitizeSoundSettings(sound) }));
+  };
+
+  const handleToggleMute = () => {
+    if (activeProfile) {
+      handleUpdateSoundSettings(activeProfile.id, { ...activeProfile.sound, muted: !activeProfile.sound.muted });
+    }
+  };
+
+  const handleUpdateAccessibility = (id: string, settings: AccessibilitySettings) => {
+    updateProfile(id, p => ({ ...p, accessibility: sanitizeAccessibility(settings) }));
+  };
+
+  const handleUpdateTheme = (id: string, themeId: ThemeId) => {
+    updateProfile(id, p => {
+      const next = sanitizeThemeId(themeId);
+      return { ...p, theme: next, rules: { ...p.rules, rewardName: getThemeRewardName(p.rules.rewardName, p.theme, next) } };
+    });
+  };
+
+  // A backup from another device, already merged if the player was here before
+  const handleImportProfile = (profile: Profile) => {
+    setProfiles(current => current.some(p => p.id === profile.id)
+      ? current.map(p => p.id === profile.id ? profile : p)
+      : [...current, profile]);
+  };
+
+  const handleSelectDifficulty = (selectedDifficulty: Difficulty) => {
+    setDifficulty(selectedDifficulty);
+    setProgress(null);
+    setGameState('playing');
+  };
+
+  const handleStartTablePractice = (selection: TableSelection) => {
+    if (activeProfileId) {
+      updateProfile(activeProfileId, p => ({ ...p, tableSelection: sanitizeTableSelection(selection) }));
+    }
+    handleSelectDifficulty(Difficulty.Tables);
+  };
+
+  const handleWin = () => {
+    const elapsedMs = Date.now() - (progress?.sessionStartedAt || Date.now());
+    recordGame(true, mode === 'blitz' ? progress?.correctAnswersCount : elapsedMs);
+    setGameState('won');
+  };
+
+  const handleTimeUp = (correctAnswers: number) => {
+    recordGame(false, correctAnswers);
+    setGameState('time_up');
+  };
+  
+  const handleHomeworkComplete = (correctAnswers: number) => {
+    if (!assignment || !activeProfile) return;
+    const finishedAt = Date.now();
+    const elapsedMs = finishedAt - (homeworkProgress?.sessionStartedAt || finishedAt);
+    setHomeworkResult(createHomeworkResult(assignment, activeProfile.name, correctAnswers, elapsedMs, finishedAt));
+    setGameState('homework_done');
+  };
+
+  // Back to the player's own game, with the link's hash gone so a reload doesn't start the homework again
+  const handleLeaveHomework = () => {
+    setAssignment(null);
+    setHomeworkResult(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    if (activeProfile) {
+      resumeProfile(activeProfile);
+    } else {
+      setGameState('selecting_profile');
+    }
+  };
+
+  const handleReset = () => {
+    if (gameState === 'homework') {
+      handleLeaveHomework();
+      return;
+    }
+    if (gameState === 'playing' && robuxScore > 0) {
+      recordGame(false);
+    }
+    setRobuxScore(0);
+    setProgress(null);
+    setGameState('selecting_difficulty');
+  };
+
+  const handleStartVersus = (setup: VersusSetup) => {
+    setVersusSetup(setup);
+    setVersusResult(null);
+    setGameState('versus');
+  };
+
+  const handleVersusFinish = (players: VersusPlayer[], winner: number) => {
+    setVersusResult({ players, winner });
+    setGameState('versus_won');
+  };
+
+  const renderGameState = () => {
+    switch (gameState) {
+      case 'selecting_profile':
+        return <ProfileSelector
+                  profiles={profiles}
+                  onSelectProfile={handleSelectProfile}
+                  onCreateProfile={handleCreateProfile}
+                  onRenameProfile={handleRenameProfile}
+                  onDeleteProfile={handleDeleteProfile}
+                  onOpenParentDashboard={() => setGameState('parent_dashboard')}
+                  onOpenVersus={() => setGameState('versus_setup')}
+                  assignment={assignment}
+                  onOpenHomework={() => setGameState('homework_tools')}
+                />;
+      case 'parent_dashboard':
+        return <ParentDashboard
+                  profiles={profiles}
+                  parentPin={parentPin}
+                  onSetPin={setParentPin}
+                  onUpdateRules={handleUpdateRules}
+                  onUpdateQuestionTypes={handleUpdateQuestionTypes}
+                  onUpdateVoiceSettings={handleUpdateVoiceSettings}
+                  onUpdateSoundSettings={handleUpdateSoundSettings}
+                  onUpdateAccessibility={handleUpdateAccessibility}
+                  onUpdateTheme={handleUpdateTheme}
+                  onImportProfile={handleImportProfile}
+                  onExit={() => setGameState('selecting_profile')}
+                />;
+      case 'selecting_difficulty':
+        return <DifficultySelector 
+                  onSelectDifficulty={handleSelectDifficulty} 
+                  selectedLanguage={language}
+                  onSelectLanguage={setLanguage}
+                  selectedMode={mode}
+                  onSelectMode={setMode}
+                  personalBests={activeProfile?.personalBests ?? {}}
+                  tableSelection={tableSelection}
+                  onStartTablePractice={handleStartTablePractice}
+                  onOpenAchievements={() => setGameState('achievements')}
+                />;
+      case 'achievements':
+        return <AchievementGallery
+                  achievements={activeProfile?.achievements ?? {}}
+                  onBack={() => setGameState('selecting_difficulty')}
+                />;
+      case 'playing':
+        return <GameScreen 
+                  difficulty={difficulty} 
+                  language={language}
+                  voiceSettings={activeProfile?.voice ?? DEFAULT_VOICE_SETTINGS}
+                  robuxScore={robuxScore} 
+                  setRobuxScore={setRobuxScore}
+                  setGameState={handleWin}
+                  savedProgress={progress}
+                  onProgressChange={setProgress}
+                  mastery={activeProfile?.mastery ?? {}}
+                  onAnswer={handleAnswer}
+                  rules={rules}
+                  mode={mode}
+                  onTimeUp={handleTimeUp}
+                  tableSelection={tableSelection}
+                  questionTypes={activeProfile?.questionTypes ?? DEFAULT_QUESTION_TYPES}
+                  achievementToast={newAchievements[0] ?? null}
+                  onAchievementToastDone={handleAchievementToastDone}
+                  assignment={null}
+                  onAssignmentComplete={() => {}}
+                />;
+      case 'homework':
+        if (!assignment) return null;
+        return <GameScreen
+                  difficulty={Difficulty.Tables}
+                  language={language}
+                  voiceSettings={activeProfile?.voice ?? DEFAULT_VOICE_SETTINGS}
+                  robuxScore={homeworkScore}
+                  setRobuxScore={setHomeworkScore}
+                  setGameState={() => {}}
+                  savedProgress={homeworkProgress}
+                  onProgressChange={setHomeworkProgress}
+                  mastery={activeProfile?.mastery ?? {}}
+                  onAnswer={handleAnswer}
+                  rules={rules}
+                  mode="classic"
+                  onTimeUp={() => {}}
+                  tableSelection={{ tables: assignment.tables, maxMultiplier: assignment.maxMultiplier }}
+                  questionTypes={assignment.questionTypes}
+                  achievementToast={newAchievements[0] ?? null}
+                  onAchievementToastDone={handleAchievementToastDone}
+                  assignment={assignment}
+                  onAssignmentComplete={handleHomeworkComplete}
+                />;
+      case 'homework_done':
+        if (!homeworkResult) return null;
+        return <HomeworkResultScreen result={homeworkResult} onDone={handleLeaveHomework} />;
+      case 'homework_tools':
+        return <HomeworkTools onBack={() => setGameState('selecting_profile')} />;
+      case 'won':
+        return <VictoryScreen onPlayAgain={handleReset} rules={rules} result={lastResult} achievementToast={newAchievements[0] ?? null} onAchievementToastDone={handleAchievementToastDone} />;
+      case 'time_up':
+        return <TimeUpScreen onPlayAgain={handleReset} result={lastResult} achievementToast={newAchievements[0] ?? null} onAchievementToastDone={handleAchievementToastDone} />;
+      case 'versus_setup':
+        return <VersusSetupScreen
+                  profiles={profiles}
+                  onStart={handleStartVersus}
+                  onCancel={() => setGameState('selecting_profile')}
+                />;
+      case 'versus': {
+        const players = versusSetup?.playerIds.map(id => profiles.find(p => p.id === id)).filter((p): p is Profile => !!p) ?? [];
+        if (!versusSetup || players.length !== 2) return null;
+        return <VersusScreen
+                  style={versusSetup.style}
+                  players={players}
+                  difficulty={versusSetup.difficulty}
+                  language={language}
+                  voiceSettings={players[0].voice}
+                  onFinish={handleVersusFinish}
+                />;
+      }
+      case 'versus_won':
+        if (!versusResult) return null;
+        return <VersusWinnerScreen
+                  players={versusResult.players}
+                  winner={versusResult.winner}
+                  onPlayAgain={() => setGameState('versus')}
+                  onExit={() => setGameState('selecting_profile')}
+                />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <LocaleContext.Provider value={locale}>
+      <AccessibilityContext.Provider value={accessibility}>
+        <ThemeContext.Provider value={theme}>
+          <main 
+            dir={locale.dir}
+            className={`bg-cover bg-center h-screen w-screen text-white flex flex-col items-center justify-center p-4 overflow-hidden ${accessibility.reduceMotion ? 'reduce-motion' : ''}`}
+            style={{ backgroundImage: theme.background }}
+          >
+            {gameState !== 'won' && gameState !== 'time_up' && gameState !== 'selecting_profile' && gameState !== 'parent_dashboard' && gameState !== 'achievements' && gameState !== 'homework_done' && gameState !== 'homework_tools' && !isVersus && activeProfile && (
+              <div className="absolute top-4 right-4 flex items-center space-x-4 rtl:space-x-reverse z-50">
+                <button
+                  onClick={() => setGameState('selecting_profile')}
+                  title={locale.messages.app.switchPlayer}
+                  className="flex items-center space-x-2 rtl:space-x-reverse bg-black bg-opacity-60 p-2 px-4 rounded-full text-xl md:text-2xl transition-transform transform hover:scale-105"
+                  style={{ border: '2px solid white' }}
+                >
+                  <span className="text-2xl md:text-3xl">{activeProfile.avatar}</span>
+                  <span className="hidden md:inline text-base max-w-[10rem] truncate">{activeProfile.name}</span>
+                  <theme.currency.Icon className="w-8 h-8"/>
+                  <span>{robuxScore}</span>
+                </button>
+                <button
+                  onClick={handleToggleMute}
+                  title={soundSettings.muted ? locale.messages.app.unmute : locale.messages.app.mute}
+                  aria-label={soundSettings.muted ? locale.messages.app.unmute : locale.messages.app.mute}
+                  className="bg-black bg-opacity-60 hover:bg-opacity-80 p-3 rounded-full transition-transform transform hover:scale-110"
+                  style={{ border: '2px solid white' }}
+                >
+                  {soundSettings.muted ? <SoundOffIcon className="w-6 h-6"/> : <SoundOnIcon className="w-6 h-6"/>}
+                </button>
+                <button onClick={handleReset} title={locale.messages.app.startOver} aria-label={locale.messages.app.startOver} className="bg-red-600 hover:bg-red-700 p-3 rounded-full transition-transform transform hover:scale-110" style={{ border: '2px solid white' }}>
+                  <ResetIcon className="w-6 h-6"/>
+                </button>
+              </div>
+            )}
+          
+            <div className="w-full h-full flex items-center justify-center">
+              {renderGameState()}
+            </div>
+
+            {applyUpdate && (
+              <div
+                role="status"
+                className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-black bg-opacity-80 text-white text-sm md:text-base p-3 px-5 rounded-lg z-50"
+                style={{ border: '2px solid white' }}
+              >
+                <span>{locale.messages.app.updateAvailable}</span>
+                <button
+                  onClick={applyUpdate}
+                  className="bg-green-500 hover:bg-green-600 font-bold py-2 px-4 rounded-lg"
+                  style={{ border: '2px solid black', boxShadow: '3px 3px 0px #000000' }}
+                >
+                  {locale.messages.app.reload}
+                </button>
+              </div>
+            )}
+          
+          </main>
+        </ThemeContext.Provider>
+      </AccessibilityContext.Provider>
+    </LocaleContext.Provider>
+  );
+};
+
+export default App;
@@ -0,0 +1,37 @@
+import { existsSync } from 'fs';
+import type { Plugin } from 'vite';
+import { CLIP_MANIFEST_PATH, getClipManifest } from '../services/audioClips';
+import { listFiles } from './serviceWorkerPlugin';
+
+// ============================================================================
+// RECORDED CLIP MANIFEST
+// ============================================================================
+// Writes audio/clips.json from the recordings actually in public/audio, so the
+// game only stitches questions from clips it can play and falls back to the
+// default voice for the rest. The dev server answers the same list live.
+
+export const clipManifestPlugin = (): Plugin => {
+  let publicDir = '';
+
+  const getManifest = (): string => {
+    const files = publicDir && existsSync(publicDir) ? listFiles(publicDir) : [];
+    return JSON.stringify(getClipManifest(files), null, 2);
+  };
+
+  return {
+    name: 'clip-manifest',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    configureServer(server) {
+      server.middlewares.use(`/${CLIP_MANIFEST_PATH}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(getManifest());
+      });
+    },
+    // Before the service worker step, which precaches it with everything else
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: CLIP_MANIFEST_PATH, source: getManifest() });
+    },
+  };
+};
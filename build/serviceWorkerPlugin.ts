@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// ============================================================================
+// SERVICE WORKER BUILD STEP
+// ============================================================================
+// Emits `sw.js` next to the build with the list of every file it should
+// precache and a cache version derived from their contents, so a deploy never
+// needs a manual CACHE_NAME bump.
+
+const MANIFEST_TOKEN = '__PRECACHE_MANIFEST__';
+const VERSION_TOKEN = '__CACHE_VERSION__';
+
+export const listFiles = (dir: string, root = dir): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const file = path.join(dir, name);
+    return statSync(file).isDirectory() ? listFiles(file, root) : [path.relative(root, file).split(path.sep).join('/')];
+  });
+
+export const serviceWorkerPlugin = (source: string): Plugin => {
+  let publicDir = '';
+
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    // After Vite has emitted index.html
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const files = new Map<string, string | Uint8Array>();
+      for (const [fileName, output] of Object.entries(bundle)) {
+        files.set(fileName, output.type === 'chunk' ? output.code : output.source);
+      }
+      // Vite copies the public folder as is, so those files aren't in the bundle
+      if (publicDir) {
+        for (const fileName of listFiles(publicDir)) {
+          files.set(fileName, readFileSync(path.join(publicDir, fileName)));
+        }
+      }
+
+      const manifest = [...files.keys()].filter(fileName => !fileName.endsWith('.map')).sort();
+      for (const fileName of manifest) {
+        hash.update(fileName).update(files.get(fileName)!);
+      }
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: readFileSync(source, 'utf8')
+          .replace(MANIFEST_TOKEN, JSON.stringify(manifest.map(fileName => `./${fileName}`)))
+          .replace(VERSION_TOKEN, JSON.stringify(hash.digest('hex').slice(0, 12))),
+      });
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+
+// ============================================================================
+// ACCESSIBILITY CONTEXT
+// ============================================================================
+// App resolves the active player's settings against the device; screens read
+// the result from here.
+export interface Accessibility {
+  colorBlindFeedback: boolean;
+  reduceMotion: boolean;
+}
+
+export const AccessibilityContext = createContext<Accessibility>({ colorBlindFeedback: false, reduceMotion: false });
+
+export const useAccessibility = (): Accessibility => useContext(AccessibilityContext);
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Tracks the device's reduced-motion setting while the app is open
+export const usePrefersReducedMotion = (): boolean => {
+  const [prefersReduced, setPrefersReduced] = useState(() =>
+    typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setPrefersReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersReduced;
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { UnlockedAchievements } from '../types';
+import { ACHIEVEMENTS } from '../services/achievements';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// ACHIEVEMENT GALLERY
+// ============================================================================
+interface AchievementGalleryProps {
+  achievements: UnlockedAchievements;
+  onBack: () => void;
+}
+
+const AchievementGallery: React.FC<AchievementGalleryProps> = ({ achievements, onBack }) => {
+  const locale = useLocale();
+  const { messages } = locale;
+  const text = messages.achievements;
+
+  return (
+    <div className="flex flex-col items-center bg-black bg-opacity-50 p-6 md:p-8 rounded-2xl shadow-lg backdrop-blur-sm w-full max-w-4xl max-h-full overflow-y-auto">
+      <h1 className="text-3xl md:text-5xl text-white font-bold mb-6 text-center" style={{ textShadow: '4px 4px #000000' }}>
+        {text.title}
+      </h1>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 w-full mb-6">
+        {ACHIEVEMENTS.map(({ id, icon }) => {
+          const unlockedAt = achievements[id];
+          const item = text.items[id];
+          return (
+            <div
+              key={id}
+              className={`flex flex-col items-center text-center p-4 rounded-xl ${unlockedAt ? 'bg-yellow-400 text-black' : 'bg-gray-700 text-gray-300'}`}
+              style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+            >
+              <span className={`text-5xl mb-2 ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{icon}</span>
+              <span className="text-base md:text-lg font-bold">{item.name}</span>
+              <span className="text-xs mt-1">{item.description}</span>
+              <span className="text-xs font-bold mt-2">
+                {unlockedAt ? text.unlockedOn(new Date(unlockedAt).toLocaleDateString(locale.speech.lang)) : text.locked}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onBack}
+        className="text-white text-xl font-bold py-3 px-8 rounded-lg bg-gray-600 hover:bg-gray-700"
+        style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+      >
+        {messages.common.back}
+      </button>
+    </div>
+  );
+};
+
+export default AchievementGallery;
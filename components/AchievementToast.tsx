@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { AchievementId } from '../types';
+import { getAchievementIcon } from '../services/achievements';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// ACHIEVEMENT TOAST
+// ============================================================================
+interface AchievementToastProps {
+  achievement: AchievementId;
+  onDone: () => void;
+}
+
+const TOAST_MS = 3000;
+
+const AchievementToast: React.FC<AchievementToastProps> = ({ achievement, onDone }) => {
+  const { messages } = useLocale();
+  const text = messages.achievements;
+
+  useEffect(() => {
+    const timer = setTimeout(onDone, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [achievement]);
+
+  return (
+    <div
+      role="status"
+      className="fixed top-20 left-1/2 -translate-x-1/2 transform z-50 flex items-center gap-3 bg-yellow-400 text-black p-3 px-5 rounded-2xl animate-bounce"
+      style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+    >
+      <span className="text-4xl">{getAchievementIcon(achievement)}</span>
+      <div className="flex flex-col">
+        <span className="text-xs font-bold">{text.unlocked}</span>
+        <span className="text-lg font-bold">{text.items[achievement].name}</span>
+      </div>
+    </div>
+  );
+};
+
+export default AchievementToast;
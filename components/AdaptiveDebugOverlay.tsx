@@ -0,0 +1,39 @@
+import React from 'react';
+import { AdaptiveState } from '../types';
+import { estimateSuccess, getFactorRanges, getTypedShare, TARGET_SUCCESS, WINDOW_SIZE } from '../services/adaptiveDifficulty';
+
+// ============================================================================
+// ADAPTIVE DIFFICULTY DEBUG OVERLAY
+// ============================================================================
+// For tuning the controller, shown with ?debug in the address. Not translated.
+interface AdaptiveDebugOverlayProps {
+  adaptive: AdaptiveState;
+}
+
+export const isDebugEnabled = (): boolean =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('debug');
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const AdaptiveDebugOverlay: React.FC<AdaptiveDebugOverlayProps> = ({ adaptive }) => {
+  const { level, recent } = adaptive;
+  const { focus, other } = getFactorRanges(level);
+  const averageMs = recent.length > 0 ? recent.reduce((sum, answer) => sum + answer.responseMs, 0) / recent.length : 0;
+
+  return (
+    <div
+      aria-hidden="true"
+      className="fixed bottom-2 left-2 z-50 bg-black bg-opacity-80 text-green-300 font-mono text-xs p-2 rounded-lg pointer-events-none"
+      style={{ direction: 'ltr' }}
+    >
+      <div>level {level.toFixed(2)}</div>
+      <div>success {percent(estimateSuccess(recent))} (target {percent(TARGET_SUCCESS)})</div>
+      <div>window {recent.length}/{WINDOW_SIZE} · avg {(averageMs / 1000).toFixed(1)}s</div>
+      <div>factors {focus.min}-{focus.max} × {other.min}-{other.max}</div>
+      <div>typed {percent(getTypedShare(level))}</div>
+      <div>{recent.map(answer => (answer.correct ? '✓' : '✗')).join('')}</div>
+    </div>
+  );
+};
+
+export default AdaptiveDebugOverlay;
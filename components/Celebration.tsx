@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { playSound } from '../services/sound';
+import { useAccessibility } from './AccessibilityContext';
+import { useTheme } from './ThemeContext';
+
+// ============================================================================
+// CELEBRATION (fireworks and confetti behind a winner's card)
+// ============================================================================
+const pick = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const Celebration: React.FC = () => {
+  const { reduceMotion } = useAccessibility();
+  const { confettiColors, fireworkGlow, shapes } = useTheme().celebration;
+  // Reduced motion keeps a few bursts and drops the falling confetti
+  const fireworks = Array.from({ length: reduceMotion ? 5 : 30 });
+  const confetti = Array.from({ length: reduceMotion ? 0 : 60 });
+
+  useEffect(() => {
+    playSound('fanfare');
+  }, []);
+
+  return (
+    <div className="absolute inset-0 w-full h-full pointer-events-none">
+      {fireworks.map((_, i) => (
+        <div
+          key={`firework-${i}`}
+          className="firework"
+          style={{
+            left: `${Math.random() * 100}%`,
+            top: `${Math.random() * 100}%`,
+            animationDelay: `${Math.random() * 2.5}s`,
+            boxShadow: `0 0 10px #fff, 0 0 20px #fff, 0 0 30px ${fireworkGlow}, 0 0 40px ${fireworkGlow}`,
+          }}
+        />
+      ))}
+      {confetti.map((_, i) => {
+        const style = {
+          left: `${Math.random() * 100}%`,
+          animationDuration: `${Math.random() * 3 + 4}s`,
+          animationDelay: `${Math.random() * 3}s`,
+        };
+        // Themes with shapes drop every other piece as one of them
+        return shapes.length > 0 && i % 2 === 0 ? (
+          <div key={`confetti-${i}`} className="confetti text-2xl" style={{ ...style, width: 'auto', height: 'auto' }}>
+            {pick(shapes)}
+          </div>
+        ) : (
+          <div key={`confetti-${i}`} className="confetti" style={{ ...style, backgroundColor: pick(confettiColors) }} />
+        );
+      })}
+    </div>
+  );
+};
+
+export default Celebration;
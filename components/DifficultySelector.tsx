@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Difficulty, GameMode, Language, PersonalBests, TableSelection } from '../types';
+import { formatPersonalBest, GAME_MODES } from '../services/gameModes';
+import { LOCALES } from '../locales';
+import { useLocale } from './LocaleContext';
+import TablePicker from './TablePicker';
+
+// ============================================================================
+// DIFFICULTY SELECTOR
+// ============================================================================
+interface DifficultySelectorProps {
+  onSelectDifficulty: (difficulty: Difficulty) => void;
+  selectedLanguage: Language;
+  onSelectLanguage: (language: Language) => void;
+  selectedMode: GameMode;
+  onSelectMode: (mode: GameMode) => void;
+  personalBests: PersonalBests;
+  tableSelection: TableSelection;
+  onStartTablePractice: (selection: TableSelection) => void;
+  onOpenAchievements: () => void;
+}
+
+const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelectDifficulty, selectedLanguage, onSelectLanguage, selectedMode, onSelectMode, personalBests, tableSelection, onStartTablePractice, onOpenAchievements }) => {
+  const [isPickingTables, setIsPickingTables] = useState(false);
+
+  const { messages } = useLocale();
+  const { setup } = messages;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full bg-black bg-opacity-50 p-8 rounded-2xl shadow-lg backdrop-blur-sm">
+      <h1 className="text-3xl md:text-5xl text-white font-bold mb-6 text-center" style={{ textShadow: '4px 4px #000000' }}>
+        {setup.title}
+      </h1>
+
+      <div className="mb-8 w-full max-w-4xl">
+        <h2 className="text-xl md:text-2xl text-white font-bold mb-4 text-center" style={{ textShadow: '2px 2px #000000' }}>{setup.language}</h2>
+        <div className="flex justify-center gap-4 flex-wrap">
+          {LOCALES.map((locale) => (
+            <button
+              key={locale.id}
+              onClick={() => onSelectLanguage(locale.id)}
+              lang={locale.speech.lang}
+              dir={locale.dir}
+              className={`text-white text-lg font-bold py-3 px-6 rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none ${selectedLanguage === locale.id ? 'ring-4 ring-yellow-400 scale-105' : 'focus:ring-2 focus:ring-gray-400'}`}
+              style={{
+                backgroundColor: '#4a5568',
+                border: '2px solid black',
+                boxShadow: '4px 4px 0px #000000'
+              }}
+            >
+              {locale.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-8 w-full max-w-4xl">
+        <h2 className="text-xl md:text-2xl text-white font-bold mb-4 text-center" style={{ textShadow: '2px 2px #000000' }}>{setup.mode}</h2>
+        <div className="flex justify-center gap-4 flex-wrap">
+          {Object.values(GAME_MODES).map((info) => {
+            const best = personalBests[info.id];
+            const text = setup.modes[info.id];
+            return (
+              <button
+                key={info.id}
+                onClick={() => onSelectMode(info.id)}
+                title={text.description}
+                className={`flex flex-col items-center text-white font-bold py-3 px-6 rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none ${selectedMode === info.id ? 'ring-4 ring-yellow-400 scale-105' : 'focus:ring-2 focus:ring-gray-400'}`}
+                style={{
+                  backgroundColor: '#4a5568',
+                  border: '2px solid black',
+                  boxShadow: '4px 4px 0px #000000'
+                }}
+              >
+                <span className="text-lg">{text.label}</span>
+                {best !== undefined && (
+                  <span className="text-xs text-yellow-300 mt-1">{text.bestLabel}: {formatPersonalBest(info.id, best)}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {isPickingTables ? (
+        <TablePicker
+          initialSelection={tableSelection}
+          onStart={onStartTablePractice}
+          onCancel={() => setIsPickingTables(false)}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 w-full max-w-4xl">
+          {(Object.keys(Difficulty) as Array<keyof typeof Difficulty>).map((key) => (
+            <button
+              key={key}
+              onClick={() => {
+                  if (Difficulty[key] === Difficulty.Tables) {
+                    setIsPickingTables(true);
+                  } else {
+                    onSelectDifficulty(Difficulty[key]);
+                  }
+              }}
+              className="text-white text-2xl font-bold py-8 px-6 rounded-lg shadow-xl transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-yellow-300"
+              style={{
+                backgroundColor: key === 'Easy' ? '#22c55e' : key === 'Moderate' ? '#f59e0b' : key === 'Hard' ? '#ef4444' : '#8b5cf6',
+                border: '4px solid black',
+                boxShadow: '8px 8px 0px #000000'
+              }}
+            >
+              {setup.difficulties[Difficulty[key]]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onOpenAchievements}
+        className="mt-8 text-white text-lg font-bold py-3 px-6 rounded-lg shadow-md transition-transform transform hover:scale-105 bg-yellow-600 hover:bg-yellow-700"
+        style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}
+      >
+        {messages.achievements.open}
+      </button>
+    </div>
+  );
+};
+
+export default DifficultySelector;
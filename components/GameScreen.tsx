@@ -0,0 +1,591 @@
+import React, { useState, useEffect, useCallback, useReducer, useRef } from 'react';
+import { AchievementId, AnswerEvent, Assignment, Difficulty, GameMode, GameProgress, Language, MasteryMap, QuestionType, RewardRules, TableSelection, VoiceSettings } from '../types';
+import { hasReachedMilestone } from '../services/rewardRules';
+import { QUESTION_TIME_MS, TIMER_TICK_MS } from '../services/gameModes';
+import { formatQuestion, getQuestionText } from '../services/questionTypes';
+import { browserEnv, createGameReducer, createInitialState, getProgress, isAssignmentDone, isTimeUp } from '../services/gameEngine';
+import { cancelSpeech, queueSpeech, speakText } from '../services/speech';
+import { QueuedSpeech } from '../services/speechQueue';
+import { isStreakMilestone, playSound } from '../services/sound';
+import { isSpeechRecognitionSupported, listenForNumber } from '../services/speechRecognition';
+import { getOptionKeyAction } from '../services/accessibility';
+import { generateWordProblem } from '../services/geminiService';
+import { FireIcon } from './icons';
+import AchievementToast from './AchievementToast';
+import AdaptiveDebugOverlay, { isDebugEnabled } from './AdaptiveDebugOverlay';
+import { useLocale } from './LocaleContext';
+import { useAccessibility } from './AccessibilityContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle } from './themes';
+
+// ============================================================================
+// GAME SCREEN
+// ============================================================================
+interface GameScreenProps {
+  difficulty: Difficulty;
+  language: Language;
+  voiceSettings: VoiceSettings;
+  robuxScore: number;
+  setRobuxScore: React.Dispatch<React.SetStateAction<number>>;
+  setGameState: (state: 'won') => void;
+  savedProgress: GameProgress | null;
+  onProgressChange: (progress: GameProgress) => void;
+  mastery: MasteryMap;
+  onAnswer: (answer: AnswerEvent) => void;
+  rules: RewardRules;
+  mode: GameMode;
+  onTimeUp: (correctAnswers: number) => void;
+  tableSelection: TableSelection;
+  questionTypes: QuestionType[];
+  // The next badge to announce, if any
+  achievementToast: AchievementId | null;
+  onAchievementToastDone: () => void;
+  // Homework replaces the reward target with a set number of questions
+  assignment: Assignment | null;
+  onAssignmentComplete: (correctAnswers: number) => void;
+}
+
+const gameReducer = createGameReducer(browserEnv);
+
+// How long an answer's feedback stays up before the next question
+const ANSWER_FEEDBACK_MS = 1250;
+
+// Color-blind mode swaps red and green for blue and orange and adds ✓ / ✗
+const FEEDBACK_STYLES = {
+  standard: { correct: 'bg-green-500', wrong: 'bg-red-500', correctField: 'bg-green-200', wrongField: 'bg-red-200', correctBorder: '#22c55e', wrongBorder: '#ef4444', correctText: 'text-green-400' },
+  colorBlind: { correct: 'bg-sky-500', wrong: 'bg-orange-500', correctField: 'bg-sky-200', wrongField: 'bg-orange-200', correctBorder: '#0ea5e9', wrongBorder: '#f97316', correctText: 'text-sky-300' },
+};
+
+const GameScreen: React.FC<GameScreenProps> = ({ difficulty, language, voiceSettings, robuxScore, setRobuxScore, setGameState, savedProgress, onProgressChange, mastery, onAnswer, rules, mode, onTimeUp, tableSelection, questionTypes, achievementToast, onAchievementToastDone, assignment, onAssignmentComplete }) => {
+  // A restored game skips the intro, so it starts on its first question. Drawing
+  // it here rather than in an effect keeps a remount (as in StrictMode) from
+  // drawing and discarding one.
+  const [state, dispatch] = useReducer(gameReducer, null, () => {
+    const initial = createInitialState(
+      { difficulty, mode, rules, tableSelection, questionTypes, assignment },
+      robuxScore,
+      savedProgress,
+      browserEnv.now(),
+    );
+    return savedProgress?.introDismissed ? gameReducer(initial, { type: 'next_question', mastery }) : initial;
+  });
+  const { question: currentQuestion, isAnswered, correctStreak, incorrectSelection, timeLeftMs, questionTimeLeftMs, speedBonus, lastAnswer } = state;
+  const [showIntroMessage, setShowIntroMessage] = useState(!savedProgress?.introDismissed);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  // Voice mode listens for the answer after each question is read out
+  const [voiceMode, setVoiceMode] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  // What was heard when it wasn't a number
+  const [misheard, setMisheard] = useState<string | null>(null);
+  // Story mode wraps each question in a word problem
+  const [storyMode, setStoryMode] = useState(false);
+  const [story, setStory] = useState<string | null>(null);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+  const questionSpokenRef = useRef<Promise<void>>(Promise.resolve());
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const typedInputRef = useRef<HTMLInputElement | null>(null);
+  const [showDebug] = useState(isDebugEnabled);
+  const { messages, dir } = useLocale();
+  const text = messages.game;
+  const a11yText = messages.accessibility;
+  const homeworkText = messages.homework;
+  const { colorBlindFeedback } = useAccessibility();
+  const feedback = colorBlindFeedback ? FEEDBACK_STYLES.colorBlind : FEEDBACK_STYLES.standard;
+  const theme = useTheme();
+  const { palette } = theme;
+  const CurrencyIcon = theme.currency.Icon;
+  const [leftCharacter, rightCharacter] = theme.characters;
+  const isTyped = currentQuestion?.typed ?? false;
+  // Homework counts the question on screen as well as the ones answered
+  const questionNumber = assignment ? Math.min(state.questionsAnswered + (isAnswered ? 0 : 1), assignment.questionCount) : 0;
+
+  // The next question is picked after a delay, by which time mastery has been updated
+  const masteryRef = useRef(mastery);
+  masteryRef.current = mastery;
+
+  const nextQuestion = useCallback(() => {
+    dispatch({ type: 'next_question', mastery: masteryRef.current });
+  }, []);
+
+  useEffect(() => {
+    setRobuxScore(state.score);
+  }, [state.score, setRobuxScore]);
+
+  useEffect(() => {
+    if(!assignment && robuxScore >= rules.targetAmount) {
+      setGameState('won');
+    }
+  }, [assignment, robuxScore, rules, setGameState]);
+
+  // Report progress so it survives reloads and service-worker updates. Every
+  // report is saved, so the clock goes along with each answer rather than on
+  // every tick, and once more when the page is hidden.
+  const latestProgressRef = useRef(getProgress(state, !showIntroMessage));
+  latestProgressRef.current = getProgress(state, !showIntroMessage);
+
+  useEffect(() => {
+    onProgressChange(latestProgressRef.current);
+  }, [state.correctStreak, state.wrongStreak, state.correctAnswersCount, state.adaptive, state.lastQuestion, showIntroMessage, state.sessionStartedAt, onProgressChange]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        onProgressChange(latestProgressRef.current);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [onProgressChange]);
+
+  // Speak question using browser native API; in story mode the story is read once it's written.
+  // Either waits its turn behind the compliment for the last answer.
+  useEffect(() => {
+    setStory(null);
+    if (!currentQuestion) return;
+    if (!storyMode) {
+      const spoken = queueSpeech(getQuestionText(currentQuestion, language), language, voiceSettings);
+      questionSpokenRef.current = spoken.done;
+      return spoken.cancel;
+    }
+    let cancelled = false;
+    let spoken: QueuedSpeech | null = null;
+    questionSpokenRef.current = generateWordProblem(currentQuestion, language, theme.id).then(problem => {
+      if (cancelled) return;
+      setStory(problem.text);
+      spoken = queueSpeech(problem.text, language, voiceSettings);
+      return spoken.done;
+    });
+    return () => {
+      cancelled = true;
+      spoken?.cancel();
+    };
+  }, [currentQuestion, storyMode]);
+
+  const stopListening = useCallback(() => {
+    stopListeningRef.current?.();
+    stopListeningRef.current = null;
+    setIsListening(false);
+    setMisheard(null);
+  }, []);
+
+  const startListening = useCallback(() => {
+    stopListening();
+    setIsListening(true);
+    stopListeningRef.current = listenForNumber(
+      language,
+      (value, transcript) => {
+        if (value === null) {
+          setMisheard(transcript);
+          return;
+        }
+        // Shown in the answer box like a typed answer
+        setTypedAnswer(String(value));
+        dispatch({ type: 'answer', given: value, inputMode: 'voice' });
+      },
+      () => {
+        stopListeningRef.current = null;
+        setIsListening(false);
+      },
+    );
+  }, [language, stopListening]);
+
+  // Listening starts only after the question is read, so the game doesn't hear itself
+  useEffect(() => {
+    if (!voiceMode || !currentQuestion || isAnswered) return;
+    let cancelled = false;
+    questionSpokenRef.current.then(() => {
+      if (!cancelled) startListening();
+    });
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, [voiceMode, currentQuestion, isAnswered, startListening, stopListening]);
+
+  // Every answer (including a beat-the-clock timeout) is reported, praised and followed by the next
+  // question, or the end of the homework. Leaving the screen (a win, time up or a reset) cancels it.
+  useEffect(() => {
+    if (!lastAnswer) return;
+
+    onAnswer(lastAnswer);
+
+    if (lastAnswer.correct) {
+      playSound('coin');
+      if (isStreakMilestone(state.correctStreak)) {
+        playSound('streak', state.correctStreak);
+      }
+      const complimentArray = hasReachedMilestone(lastAnswer.scoreAfter, rules, 'almostThere') ? text.highScoreCompliments : text.compliments;
+      const randomCompliment = complimentArray[Math.floor(Math.random() * complimentArray.length)];
+      // Cuts off the question; the next one is queued behind the compliment
+      speakText(randomCompliment, language, voiceSettings);
+    } else {
+      playSound('buzz');
+      // Stop reading question
+      cancelSpeech();
+    }
+
+    const isDone = isAssignmentDone(state);
+    const timer = setTimeout(() => {
+      if (isDone) {
+        onAssignmentComplete(state.correctAnswersCount);
+        return;
+      }
+      setTypedAnswer('');
+      nextQuestion();
+    }, ANSWER_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [lastAnswer]);
+
+  // Nothing keeps talking once the game is over
+  useEffect(() => () => cancelSpeech(), []);
+
+  // This function is triggered by the user clicking "START"
+  const handleStartGame = () => {
+      setShowIntroMessage(false);
+      nextQuestion();
+  };
+
+  // Timed modes count down only while a question is waiting for an answer
+  useEffect(() => {
+    if (mode === 'classic' || showIntroMessage || !currentQuestion || isAnswered) return;
+    let lastTick = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      dispatch({ type: 'tick', elapsedMs: now - lastTick });
+      lastTick = now;
+    }, TIMER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [mode, showIntroMessage, currentQuestion, isAnswered]);
+
+  useEffect(() => {
+    if (isTimeUp(state)) {
+      cancelSpeech();
+      onTimeUp(state.correctAnswersCount);
+    }
+  }, [state.timeLeftMs, onTimeUp]);
+
+  const handleAnswer = (selectedOption: number) => {
+    dispatch({ type: 'answer', given: selectedOption, inputMode: 'choice' });
+  };
+
+  // Keep keyboard focus on the answers as questions change
+  useEffect(() => {
+    if (!currentQuestion || isAnswered) return;
+    if (isTyped) {
+      typedInputRef.current?.focus();
+    } else {
+      optionRefs.current[0]?.focus();
+    }
+  }, [currentQuestion, isAnswered, isTyped]);
+
+  // Keyboard play: Enter starts, number and arrow keys pick an answer
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.altKey || e.ctrlKey || e.metaKey) return;
+      // Focused buttons and fields handle Enter themselves
+      const tagName = (e.target as HTMLElement).tagName;
+      if (showIntroMessage) {
+        if (e.key === 'Enter' && tagName !== 'BUTTON') {
+          e.preventDefault();
+          handleStartGame();
+        }
+        return;
+      }
+      if (!currentQuestion || isAnswered || isTyped || tagName === 'INPUT') return;
+
+      const focused = optionRefs.current.findIndex(button => button !== null && button === document.activeElement);
+      const action = getOptionKeyAction(e.key, focused === -1 ? null : focused, currentQuestion.options.length, dir === 'rtl');
+      if (!action) return;
+      e.preventDefault();
+      if (action.type === 'choose') {
+        handleAnswer(currentQuestion.options[action.index].value);
+      } else {
+        optionRefs.current[action.index]?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showIntroMessage, currentQuestion, isAnswered, isTyped, dir]);
+
+  const handleTypedAnswerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isAnswered || !typedAnswer.trim()) return;
+    dispatch({ type: 'answer', given: parseInt(typedAnswer, 10), inputMode: 'typed' });
+  };
+
+  if (showIntroMessage) {
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black bg-opacity-80 backdrop-blur-sm p-4">
+            
+            {/* Floating Currency Background Effect */}
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+                {[...Array(8)].map((_, i) => (
+                    <div key={i} className="absolute opacity-30 animate-pulse" 
+                         style={{
+                             top: `${Math.random() * 100}%`,
+                             left: `${Math.random() * 100}%`,
+                             animationDuration: `${2 + Math.random() * 3}s`
+                         }}>
+                         <CurrencyIcon className="w-12 h-12 md:w-24 md:h-24" />
+                    </div>
+                ))}
+            </div>
+
+            <div className="relative z-10 flex flex-col items-center max-w-4xl w-full">
+                
+                {/* Characters and Coins Row */}
+                <div className="flex items-end justify-center space-x-4 md:space-x-12 mb-8">
+                    {/* Character 1 */}
+                    {leftCharacter && (
+                      <img 
+                          src={leftCharacter} 
+                          alt="" 
+                          className="w-24 h-24 md:w-40 md:h-40 drop-shadow-2xl transform -rotate-6 animate-bounce"
+                          style={{ animationDuration: '2s' }}
+                      />
+                    )}
+                    
+                    {/* Big Pile of Currency */}
+                    <div className="flex flex-col items-center mb-4">
+                         <div className="flex -space-x-4">
+                            <CurrencyIcon className="w-16 h-16 md:w-24 md:h-24 drop-shadow-lg animate-pulse" />
+                            <CurrencyIcon className="w-20 h-20 md:w-32 md:h-32 drop-shadow-xl z-10" />
+                            <CurrencyIcon className="w-16 h-16 md:w-24 md:h-24 drop-shadow-lg animate-pulse" />
+                         </div>
+                    </div>
+
+                    {/* Character 2 */}
+                    {rightCharacter && (
+                      <img 
+                          src={rightCharacter} 
+                          alt="" 
+                          className="w-24 h-24 md:w-40 md:h-40 drop-shadow-2xl transform rotate-6 animate-bounce"
+                          style={{ animationDuration: '2.2s' }}
+                      />
+                    )}
+                </div>
+
+                {/* Message Box */}
+                <div className={`bg-gradient-to-r from-slate-800 to-slate-900 border-4 ${palette.frame} p-8 rounded-3xl shadow-2xl text-center transform scale-100 flex flex-col items-center`}>
+                    <h2 className="text-3xl md:text-5xl text-white font-bold leading-tight mb-4" style={{ textShadow: '2px 2px 0 #000' }}>
+                        {assignment ? (
+                          <span className={palette.accent}>{assignment.title || homeworkText.title}</span>
+                        ) : (
+                          <>{text.introWin} <span className={palette.accent}>{rules.targetAmount} {rules.rewardName}</span>{text.introWinEnd}</>
+                        )}
+                    </h2>
+                    <p className="text-xl md:text-2xl text-gray-300 font-bold mb-6">
+                        {assignment ? homeworkText.intro(assignment.questionCount) : text.intro[mode]}
+                    </p>
+                    
+                    <button 
+                        onClick={handleStartGame}
+                        autoFocus
+                        className="bg-green-500 hover:bg-green-600 text-white text-2xl md:text-3xl font-black py-4 px-12 rounded-xl shadow-lg animate-pulse transform hover:scale-105 transition-all"
+                        style={{ border: `4px solid ${palette.outline}`, boxShadow: '0 8px 0 #004400' }}
+                    >
+                        {text.startGame}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+  }
+
+  if (!currentQuestion) {
+    return <div className="text-white text-4xl">{text.loading}</div>;
+  }
+
+  const getButtonClass = (option: number) => {
+    if (!isAnswered) {
+      return `${palette.option} ${palette.optionHover}`;
+    }
+    if (option === currentQuestion?.answer) {
+      return `${feedback.correct} animate-pulse`;
+    }
+    if (option === incorrectSelection) {
+      return feedback.wrong;
+    }
+    return `${palette.option} opacity-50`;
+  };
+
+  const getButtonIcon = (option: number) => {
+    if (!colorBlindFeedback || !isAnswered) return null;
+    if (option === currentQuestion?.answer) return '✓';
+    if (option === incorrectSelection) return '✗';
+    return null;
+  };
+  
+  const isTypedAnswerCorrect = isAnswered && parseInt(typedAnswer, 10) === currentQuestion?.answer;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full w-full max-w-4xl mx-auto p-4 relative">
+      {achievementToast && <AchievementToast key={achievementToast} achievement={achievementToast} onDone={onAchievementToastDone} />}
+      {showDebug && <AdaptiveDebugOverlay adaptive={state.adaptive} />}
+
+      {/* Screen reader announcements: the question, how the answer went and the score */}
+      <div className="sr-only" aria-live="polite">{story ?? getQuestionText(currentQuestion, language)}</div>
+      <div className="sr-only" aria-live="assertive">
+        {isAnswered && lastAnswer ? (lastAnswer.correct ? a11yText.correct : a11yText.incorrect(currentQuestion.answer)) : ''}
+      </div>
+      <div className="sr-only" aria-live="polite">
+        {assignment ? homeworkText.progress(questionNumber, assignment.questionCount) : a11yText.score(state.score, rules.rewardName)} {correctStreak > 1 ? text.streak(correctStreak) : ''}
+      </div>
+
+      {/* STREAK COUNTER - INLINE POSITION */}
+      {/* Using a set height container prevents jumping when streak appears/disappears */}
+      <div className={`h-16 flex items-center justify-center transition-all duration-500 ${correctStreak > 1 ? 'opacity-100 scale-100' : 'opacity-0 scale-90'}`}>
+          <div className="flex items-center space-x-2 rtl:space-x-reverse bg-black bg-opacity-60 p-2 px-4 rounded-full border-2 border-orange-500 shadow-lg">
+            <FireIcon className="w-6 h-6 md:w-8 md:h-8 animate-pulse text-orange-500" />
+            <span className="text-orange-400 font-bold text-lg md:text-2xl" style={{ textShadow: '1px 1px 0 #000' }}>{text.streak(correctStreak)}</span>
+          </div>
+      </div>
+
+      {assignment && (
+          <div className="flex items-center bg-black bg-opacity-60 p-2 px-4 rounded-full border-2 border-white shadow-lg text-lg md:text-2xl font-bold text-white">
+            {homeworkText.progress(questionNumber, assignment.questionCount)}
+          </div>
+      )}
+
+      {mode === 'blitz' && (
+          <div className={`flex items-center space-x-2 rtl:space-x-reverse bg-black bg-opacity-60 p-2 px-4 rounded-full border-2 shadow-lg text-lg md:text-2xl font-bold ${timeLeftMs <= 10000 ? 'border-red-500 text-red-400 animate-pulse' : 'border-white text-white'}`}>
+            <span>⏱</span>
+            <span>{Math.ceil(timeLeftMs / 1000)}s</span>
+          </div>
+      )}
+
+      {storyMode && (
+        <p className="bg-black bg-opacity-60 text-white text-lg md:text-2xl font-bold text-center p-4 rounded-2xl max-w-3xl mt-2" style={{ border: `3px solid ${palette.outline}` }}>
+          {story ?? text.storyLoading}
+        </p>
+      )}
+
+      <div dir="ltr" className="text-black text-6xl md:text-8xl font-bold mb-8 md:mb-12 mt-2" style={{ textShadow: '3px 3px 4px rgba(255,255,255,0.7)' }}>
+        {formatQuestion(currentQuestion)}
+      </div>
+
+      {mode === 'beat_the_clock' && (
+          <div className="w-full max-w-md h-6 mb-6 -mt-4 md:-mt-8 bg-black bg-opacity-60 rounded-full overflow-hidden relative" style={{ border: `3px solid ${palette.outline}` }}>
+            <div
+              className="h-full"
+              style={{
+                width: `${(questionTimeLeftMs / QUESTION_TIME_MS) * 100}%`,
+                backgroundColor: `hsl(${Math.round((questionTimeLeftMs / QUESTION_TIME_MS) * 120)}, 80%, 45%)`,
+                transition: `width ${TIMER_TICK_MS}ms linear`,
+              }}
+            />
+            {isAnswered && speedBonus > 0 && (
+              <span className="absolute inset-0 flex items-center justify-center text-sm text-yellow-300 font-bold" style={{ textShadow: '1px 1px 0 #000' }}>
+                {text.speedBonus(speedBonus)}
+              </span>
+            )}
+          </div>
+      )}
+
+      {!isTyped ? (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:gap-8 w-full">
+              {currentQuestion.options.map(({ value }, index) => (
+                <button
+                  key={index}
+                  ref={(button) => { optionRefs.current[index] = button; }}
+                  onClick={() => handleAnswer(value)}
+                  disabled={isAnswered}
+                  aria-keyshortcuts={String(index + 1)}
+                  className={`text-white text-4xl md:text-6xl font-bold py-10 md:py-16 rounded-2xl shadow-xl transition-all duration-300 focus:outline-none focus-visible:ring-8 focus-visible:ring-yellow-300 ${getButtonClass(value)} disabled:cursor-not-allowed`}
+                  style={getFrameStyle(theme, 6, 10)}
+                >
+                  {getButtonIcon(value) && <span aria-hidden="true" className="me-3">{getButtonIcon(value)}</span>}
+                  {value}
+                </button>
+              ))}
+            </div>
+            <p className="hidden md:block mt-6 text-sm text-white opacity-80" style={{ textShadow: '1px 1px 0 #000' }}>
+              {a11yText.keyboardHint}
+            </p>
+          </>
+      ) : (
+        <form onSubmit={handleTypedAnswerSubmit} className="flex flex-col items-center gap-6 w-full">
+            <div className="flex items-center gap-4">
+                <input
+                    ref={typedInputRef}
+                    type="number"
+                    value={typedAnswer}
+                    onChange={(e) => setTypedAnswer(e.target.value)}
+                    disabled={isAnswered}
+                    className={`text-black text-4xl md:text-6xl text-center font-bold p-4 rounded-2xl w-full max-w-xs transition-colors duration-300 ${
+                        isAnswered ? (isTypedAnswerCorrect ? feedback.correctField : feedback.wrongField) : 'bg-white'
+                    }`}
+                    style={{ 
+                        border: `6px solid ${isAnswered ? (isTypedAnswerCorrect ? feedback.correctBorder : feedback.wrongBorder) : palette.outline}`,
+                        boxShadow: 'inset 5px 5px 10px #00000040'
+                    }}
+                    autoFocus
+                />
+                {colorBlindFeedback && isAnswered && (
+                    <span aria-hidden="true" className="text-5xl md:text-6xl font-bold" style={{ textShadow: '2px 2px 4px #000' }}>
+                        {isTypedAnswerCorrect ? '✓' : '✗'}
+                    </span>
+                )}
+            </div>
+            <button
+                type="submit"
+                disabled={isAnswered || !typedAnswer.trim()}
+                className="text-white text-3xl md:text-4xl font-bold py-4 px-10 rounded-2xl shadow-xl bg-green-600 hover:bg-green-700 transition-all duration-300 disabled:cursor-not-allowed disabled:bg-gray-500"
+                style={getFrameStyle(theme, 6, 10)}
+            >
+                {text.submit}
+            </button>
+
+            {isAnswered && !isTypedAnswerCorrect && (
+                <div className="mt-4 text-3xl font-bold text-center" style={{ textShadow: '2px 2px 4px #000' }}>
+                    {text.correctAnswer} <span className={`${feedback.correctText} animate-pulse`}>{currentQuestion?.answer}</span>
+                </div>
+            )}
+        </form>
+      )}
+
+      <div className="flex flex-col items-center gap-3 mt-6">
+        <div className="flex items-center gap-3 flex-wrap justify-center">
+          <button
+            type="button"
+            onClick={() => setStoryMode(!storyMode)}
+            aria-pressed={storyMode}
+            className={`text-white text-lg md:text-xl font-bold py-2 px-4 rounded-xl transition-colors ${storyMode ? 'bg-red-500 hover:bg-red-600' : 'bg-teal-600 hover:bg-teal-700'}`}
+            style={getFrameStyle(theme, 3, 4)}
+          >
+            📖 {storyMode ? text.storyOff : text.storyOn}
+          </button>
+          {isSpeechRecognitionSupported() && (
+            <button
+              type="button"
+              onClick={() => setVoiceMode(!voiceMode)}
+              aria-pressed={voiceMode}
+              className={`text-white text-lg md:text-xl font-bold py-2 px-4 rounded-xl transition-colors ${voiceMode ? 'bg-red-500 hover:bg-red-600' : 'bg-purple-600 hover:bg-purple-700'}`}
+              style={getFrameStyle(theme, 3, 4)}
+            >
+              🎤 {voiceMode ? text.voiceOff : text.voiceOn}
+            </button>
+          )}
+          {voiceMode && !isListening && !isAnswered && (
+            <button
+              type="button"
+              onClick={startListening}
+              className="text-white text-lg md:text-xl font-bold py-2 px-4 rounded-xl bg-green-600 hover:bg-green-700 transition-colors"
+              style={getFrameStyle(theme, 3, 4)}
+            >
+              {text.listenAgain}
+            </button>
+          )}
+        </div>
+        {voiceMode && (isListening || misheard !== null) && (
+          <div className={`text-xl md:text-2xl font-bold text-white ${isListening ? 'animate-pulse' : ''}`} style={{ textShadow: '2px 2px 0 #000' }}>
+            {misheard !== null ? text.notANumber(misheard) : text.listening}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameScreen;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { HomeworkResult } from '../types';
+import { encodeResultCode } from '../services/homework';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// HOMEWORK RESULT SCREEN
+// ============================================================================
+interface HomeworkResultScreenProps {
+  result: HomeworkResult;
+  onDone: () => void;
+}
+
+const HomeworkResultScreen: React.FC<HomeworkResultScreenProps> = ({ result, onDone }) => {
+  const [copied, setCopied] = useState(false);
+  const { messages } = useLocale();
+  const text = messages.homework;
+  const code = encodeResultCode(result);
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(code).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-md">
+      <div className="relative bg-gradient-to-br from-emerald-300 to-teal-500 p-8 md:p-12 m-4 rounded-2xl shadow-2xl text-center text-gray-900 max-w-2xl w-full border-8 border-teal-600"
+           style={{ textShadow: '2px 2px #ffffffaa' }}>
+        <div className="text-7xl md:text-8xl mb-6">📝</div>
+        <h1 className="text-4xl md:text-6xl font-bold mb-4">{text.doneTitle}</h1>
+        <p className="text-2xl md:text-3xl mb-6">{text.score(result.correct, result.total)}</p>
+        <p className="text-lg font-bold mb-2">{text.codeHint}</p>
+        <output dir="ltr" className="block font-mono text-base md:text-lg break-all bg-white p-3 rounded-lg mb-4 select-all" style={{ border: '3px solid black', textShadow: 'none' }}>
+          {code}
+        </output>
+        <div className="flex gap-4 justify-center">
+          <button
+            onClick={handleCopy}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-xl font-bold py-3 px-6 rounded-lg"
+            style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+          >
+            {copied ? text.copied : text.copy}
+          </button>
+          <button
+            autoFocus
+            onClick={onDone}
+            className="bg-green-500 hover:bg-green-600 text-white text-xl font-bold py-3 px-6 rounded-lg"
+            style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+          >
+            {text.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HomeworkResultScreen;
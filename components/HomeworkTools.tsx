@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { AssignmentInputMode, QuestionType } from '../types';
+import { MAX_FACTOR } from '../services/mastery';
+import { MIN_MULTIPLIER } from '../services/tableSelection';
+import { DEFAULT_QUESTION_TYPES, QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import {
+  ASSIGNMENT_INPUT_MODES,
+  createAssignmentId,
+  decodeResultCode,
+  DEFAULT_QUESTION_COUNT,
+  getAssignmentLink,
+  MAX_TITLE_LENGTH,
+  QUESTION_COUNT_LIMITS,
+  ResultCodeCheck,
+  sanitizeAssignment,
+} from '../services/homework';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle } from './themes';
+import QrCodeImage from './QrCodeImage';
+
+// ============================================================================
+// HOMEWORK TOOLS (for teachers: create assignments, check result codes)
+// ============================================================================
+interface HomeworkToolsProps {
+  onBack: () => void;
+}
+
+const TABLES = Array.from({ length: MAX_FACTOR }, (_, i) => i + 1);
+const MULTIPLIERS = Array.from({ length: MAX_FACTOR - MIN_MULTIPLIER }, (_, i) => i + MIN_MULTIPLIER);
+
+const inputClass = 'text-black text-sm font-bold p-2 rounded-lg w-full bg-white';
+const labelClass = 'flex flex-col text-xs text-gray-300 gap-1';
+
+const toggleIn = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const HomeworkTools: React.FC<HomeworkToolsProps> = ({ onBack }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const [title, setTitle] = useState('');
+  const [tables, setTables] = useState<number[]>([]);
+  const [maxMultiplier, setMaxMultiplier] = useState<number | null>(null);
+  const [questionCount, setQuestionCount] = useState(DEFAULT_QUESTION_COUNT);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(DEFAULT_QUESTION_TYPES);
+  const [inputMode, setInputMode] = useState<AssignmentInputMode>('adaptive');
+  const [link, setLink] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [check, setCheck] = useState<ResultCodeCheck | null>(null);
+  const { messages, speech } = useLocale();
+  const text = messages.homework;
+
+  // A link always matches what the form shows
+  useEffect(() => {
+    setLink(null);
+  }, [title, tables, maxMultiplier, questionCount, questionTypes, inputMode]);
+
+  const assignmentFields = { title, tables, maxMultiplier, questionCount, questionTypes, inputMode };
+  const canCreate = sanitizeAssignment({ ...assignmentFields, id: createAssignmentId() }) !== null;
+
+  const handleCreate = () => {
+    const assignment = sanitizeAssignment({ ...assignmentFields, id: createAssignmentId() });
+    if (assignment) {
+      setLink(getAssignmentLink(assignment, window.location.href));
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    `text-sm font-bold py-2 px-3 rounded-lg ${selected ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300'}`;
+
+  return (
+    <div className="flex flex-col items-center bg-black bg-opacity-50 p-6 md:p-8 rounded-2xl shadow-lg backdrop-blur-sm w-full max-w-4xl max-h-full overflow-y-auto">
+      <h1 className="text-3xl md:text-5xl text-white font-bold mb-6 text-center" style={{ textShadow: '4px 4px #000000' }}>
+        {text.title}
+      </h1>
+
+      <section className="w-full bg-slate-800 bg-opacity-80 p-4 md:p-6 rounded-xl mb-6 flex flex-col gap-4">
+        <h2 className="text-xl text-white font-bold">{text.create}</h2>
+
+        <label className={labelClass}>
+          {text.assignmentTitle}
+          <input type="text" maxLength={MAX_TITLE_LENGTH} value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+        </label>
+
+        <div className={labelClass}>
+          {text.tables}
+          <div className="flex gap-2 flex-wrap">
+            {TABLES.map(table => (
+              <button key={table} onClick={() => setTables(current => toggleIn(current, table).sort((a, b) => a - b))} aria-pressed={tables.includes(table)} className={optionClass(tables.includes(table))} style={buttonStyle}>
+                ×{table}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className={labelClass}>
+            {messages.tables.upTo}
+            <select value={maxMultiplier ?? ''} onChange={(e) => setMaxMultiplier(e.target.value ? Number(e.target.value) : null)} className={inputClass}>
+              <option value="">{messages.tables.all(MAX_FACTOR)}</option>
+              {MULTIPLIERS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            {text.questionCount}
+            <input
+              type="number"
+              min={QUESTION_COUNT_LIMITS.min}
+              max={QUESTION_COUNT_LIMITS.max}
+              value={Number.isFinite(questionCount) ? questionCount : ''}
+              onChange={(e) => setQuestionCount(e.target.valueAsNumber)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className={labelClass}>
+          {text.questionTypes}
+          <div className="flex gap-2 flex-wrap">
+            {QUESTION_TYPES.map(type => (
+              <button key={type} onClick={() => setQuestionTypes(current => toggleIn(current, type))} aria-pressed={questionTypes.includes(type)} className={optionClass(questionTypes.includes(type))} style={buttonStyle}>
+                {QUESTION_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={labelClass}>
+          {text.inputMode}
+          <div className="flex gap-2 flex-wrap">
+            {ASSIGNMENT_INPUT_MODES.map(mode => (
+              <button key={mode} onClick={() => setInputMode(mode)} aria-pressed={inputMode === mode} className={optionClass(inputMode === mode)} style={buttonStyle}>
+                {text.inputModes[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={handleCreate}
+          disabled={!canCreate}
+          className="self-start text-white font-bold py-2 px-4 rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          style={buttonStyle}
+        >
+          {text.createLink}
+        </button>
+
+        {link && (
+          <div className="flex flex-col md:flex-row items-center gap-4">
+            <QrCodeImage text={link} label={text.createLink} fallback={<p className="text-sm text-yellow-300">{text.tooLongForQr}</p>} />
+            <div className="flex flex-col gap-2 w-full">
+              <input type="text" readOnly dir="ltr" value={link} onFocus={(e) => e.target.select()} className={`${inputClass} font-mono`} />
+              <button onClick={() => navigator.clipboard?.writeText(link)} className="self-start text-white text-sm font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700" style={buttonStyle}>
+                {text.copy}
+              </button>
+              <p className="text-xs text-gray-300">{text.linkHint}</p>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="w-full bg-slate-800 bg-opacity-80 p-4 md:p-6 rounded-xl mb-6 flex flex-col gap-4">
+        <h2 className="text-xl text-white font-bold">{text.verify}</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setCheck(decodeResultCode(code));
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            dir="ltr"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setCheck(null);
+            }}
+            placeholder={text.codePlaceholder}
+            className={`${inputClass} font-mono`}
+          />
+          <button type="submit" disabled={!code.trim()} className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-500" style={buttonStyle}>
+            {text.check}
+          </button>
+        </form>
+        {check && ('error' in check ? (
+          <p className="text-sm font-bold text-red-300" role="alert">{text.errors[check.error]}</p>
+        ) : (
+          <div className="text-white" role="status">
+            <p className="text-lg font-bold text-green-300">✓ {text.result(check.result.name, check.result.correct, check.result.total)}</p>
+            <p className="text-sm text-gray-300">
+              {text.resultDetails(check.result.assignmentId, Math.ceil(check.result.seconds / 60), new Date(check.result.finishedAt).toLocaleString(speech.lang))}
+            </p>
+          </div>
+        ))}
+      </section>
+
+      <button
+        onClick={onBack}
+        className="text-white text-xl font-bold py-3 px-6 rounded-lg bg-gray-600 hover:bg-gray-700"
+        style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+      >
+        {messages.common.back}
+      </button>
+    </div>
+  );
+};
+
+export default HomeworkTools;
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+import { getLocale, DEFAULT_LANGUAGE, LocaleCatalog } from '../services/i18n';
+
+// ============================================================================
+// LOCALE CONTEXT
+// ============================================================================
+// App provides the active player's catalog; every screen reads its strings from here.
+export const LocaleContext = createContext<LocaleCatalog>(getLocale(DEFAULT_LANGUAGE));
+
+export const useLocale = (): LocaleCatalog => useContext(LocaleContext);
@@ -0,0 +1,464 @@
+import React, { useMemo, useState } from 'react';
+import { AccessibilitySettings, AnswerRecord, Profile, QuestionType, RewardRules, SoundSettings, ThemeId, VoiceSettings } from '../types';
+import { groupSessions, summarizeFacts, summarizeMisconceptions, FactSummary } from '../services/answerLog';
+import { getFactKey, MAX_FACTOR, SLOW_ANSWER_MS } from '../services/mastery';
+import { isValidPin } from '../services/storage';
+import { formatQuestion, QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import { MOTION_PREFERENCES } from '../services/accessibility';
+import { THEME_IDS } from '../services/themes';
+import { getFrameStyle, THEMES } from './themes';
+import RewardSettings from './RewardSettings';
+import VoiceSettingsPanel from './VoiceSettingsPanel';
+import SoundSettingsPanel from './SoundSettingsPanel';
+import ProfileTransfer from './ProfileTransfer';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+
+// ============================================================================
+// PARENT DASHBOARD
+// ============================================================================
+interface ParentDashboardProps {
+  profiles: Profile[];
+  parentPin: string | null;
+  onSetPin: (pin: string) => void;
+  onUpdateRules: (profileId: string, rules: RewardRules) => void;
+  onUpdateQuestionTypes: (profileId: string, questionTypes: QuestionType[]) => void;
+  onUpdateVoiceSettings: (profileId: string, voice: VoiceSettings) => void;
+  onUpdateSoundSettings: (profileId: string, sound: SoundSettings) => void;
+  onUpdateAccessibility: (profileId: string, settings: AccessibilitySettings) => void;
+  onUpdateTheme: (profileId: string, theme: ThemeId) => void;
+  onImportProfile: (profile: Profile) => void;
+  onExit: () => void;
+}
+
+// How many recent sessions are listed
+const SESSION_LIMIT = 10;
+
+// ----------------------------------------------------------------------------
+// PIN gate
+// ----------------------------------------------------------------------------
+interface PinGateProps {
+  parentPin: string | null;
+  onSetPin: (pin: string) => void;
+  onUnlock: () => void;
+  onExit: () => void;
+}
+
+const PinGate: React.FC<PinGateProps> = ({ parentPin, onSetPin, onUnlock, onExit }) => {
+  const theme = useTheme();
+  const panelStyle = getFrameStyle(theme, 4, 8);
+  const buttonStyle = getFrameStyle(theme, 2, 4);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const isSettingPin = parentPin === null;
+  const { messages } = useLocale();
+  const text = messages.parents;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError(text.pinLength);
+      return;
+    }
+    if (isSettingPin) {
+      if (pin !== confirmPin) {
+        setError(text.pinMismatch);
+        return;
+      }
+      onSetPin(pin);
+      onUnlock();
+    } else if (pin === parentPin) {
+      onUnlock();
+    } else {
+      setError(text.wrongPin);
+      setPin('');
+    }
+  };
+
+  const pinInput = (value: string, onChange: (value: string) => void, placeholder: string, autoFocus = false) => (
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={4}
+      value={value}
+      onChange={(e) => { onChange(e.target.value.replace(/\D/g, '')); setError(''); }}
+      placeholder={placeholder}
+      className="text-black text-3xl text-center font-bold p-3 rounded-xl w-full max-w-xs mb-4 bg-white tracking-widest"
+      style={{ border: '4px solid black' }}
+      autoFocus={autoFocus}
+    />
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col items-center bg-slate-900 bg-opacity-90 p-8 rounded-2xl w-full max-w-md" style={panelStyle}>
+      <h1 className="text-2xl md:text-3xl text-white font-bold mb-2 text-center" style={{ textShadow: '3px 3px #000000' }}>
+        {text.pinTitle}
+      </h1>
+      <p className="text-sm text-gray-300 mb-6 text-center">
+        {isSettingPin ? text.choosePin : text.enterPin}
+      </p>
+      {pinInput(pin, setPin, text.pinPlaceholder, true)}
+      {isSettingPin && pinInput(confirmPin, setConfirmPin, text.repeatPin)}
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+      <div className="flex gap-4">
+        <button type="button" onClick={onExit} className="text-white font-bold py-3 px-6 rounded-lg bg-gray-600 hover:bg-gray-700" style={buttonStyle}>
+          {messages.common.back}
+        </button>
+        <button type="submit" className="text-white font-bold py-3 px-6 rounded-lg bg-green-500 hover:bg-green-600" style={buttonStyle}>
+          {isSettingPin ? messages.common.save : text.unlock}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// 12x12 heatmap
+// ----------------------------------------------------------------------------
+type HeatmapMode = 'accuracy' | 'speed';
+
+const getCellColor = (summary: FactSummary | undefined, mode: HeatmapMode): string => {
+  if (!summary) {
+    return '#374151';
+  }
+  // 0 = red (struggling), 1 = green (solid)
+  const strength = mode === 'accuracy'
+    ? summary.correct / summary.attempts
+    : 1 - Math.min(1, Math.max(0, (summary.averageResponseMs - 2000) / (SLOW_ANSWER_MS * 1.5 - 2000)));
+  return `hsl(${Math.round(strength * 120)}, 70%, 42%)`;
+};
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const FactHeatmap: React.FC<{ answers: AnswerRecord[] }> = ({ answers }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const [mode, setMode] = useState<HeatmapMode>('accuracy');
+  const summaries = useMemo(() => summarizeFacts(answers), [answers]);
+  const factors = Array.from({ length: MAX_FACTOR }, (_, i) => i + 1);
+  const text = useLocale().messages.parents;
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex gap-2 mb-3">
+        {(['accuracy', 'speed'] as HeatmapMode[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`text-xs font-bold py-2 px-3 rounded-lg ${mode === option ? 'bg-yellow-500 text-black' : 'bg-gray-600 text-white'}`}
+            style={buttonStyle}
+          >
+            {option === 'accuracy' ? text.accuracy : text.speed}
+          </button>
+        ))}
+      </div>
+      <div className="grid gap-px text-[0.5rem] md:text-xs" style={{ gridTemplateColumns: `repeat(${MAX_FACTOR + 1}, minmax(0, 1fr))` }}>
+        <div />
+        {factors.map(n => <div key={`col-${n}`} className="text-center text-yellow-300 p-1">{n}</div>)}
+        {factors.map(row => (
+          <React.Fragment key={`row-${row}`}>
+            <div className="text-center text-yellow-300 p-1">{row}</div>
+            {factors.map(col => {
+              const summary = summaries[getFactKey(row, col)];
+              const fact = `${row} x ${col}`;
+              const title = summary
+                ? text.factStats(fact, summary.correct, summary.attempts, formatSeconds(summary.averageResponseMs))
+                : text.factUnpracticed(fact);
+              return (
+                <div
+                  key={`${row}-${col}`}
+                  title={title}
+                  className="w-5 h-5 md:w-7 md:h-7 rounded-sm"
+                  style={{ backgroundColor: getCellColor(summary, mode) }}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      <p className="text-[0.6rem] text-gray-300 mt-2">
+        {mode === 'accuracy' ? text.accuracyLegend : text.speedLegend} {text.unpracticedLegend}
+      </p>
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Session score chart
+// ----------------------------------------------------------------------------
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+
+const ScoreChart: React.FC<{ answers: AnswerRecord[]; maxScore: number }> = ({ answers, maxScore }) => {
+  const top = Math.max(maxScore, ...answers.map(a => a.scoreAfter));
+  const step = answers.length > 1 ? CHART_WIDTH / (answers.length - 1) : 0;
+  const points = answers
+    .map((a, i) => `${Math.round(i * step)},${Math.round(CHART_HEIGHT - (a.scoreAfter / top) * CHART_HEIGHT)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-black bg-opacity-40 rounded-lg">
+      <polyline points={points} fill="none" stroke="#facc15" strokeWidth="3" strokeLinejoin="round" />
+      {answers.map((a, i) => !a.correct && (
+        <circle key={i} cx={Math.round(i * step)} cy={Math.round(CHART_HEIGHT - (a.scoreAfter / top) * CHART_HEIGHT)} r="3" fill="#ef4444" />
+      ))}
+    </svg>
+  );
+};
+
+const SessionHistory: React.FC<{ answers: AnswerRecord[]; targetAmount: number }> = ({ answers, targetAmount }) => {
+  const sessions = useMemo(() => groupSessions(answers).slice(0, SESSION_LIMIT), [answers]);
+  const [selected, setSelected] = useState(0);
+  const session = sessions[Math.min(selected, sessions.length - 1)];
+  const locale = useLocale();
+  const text = locale.messages.parents;
+
+  if (!session) {
+    return <p className="text-sm text-gray-300">{text.noGames}</p>;
+  }
+
+  const correct = session.answers.filter(a => a.correct).length;
+  const typed = session.answers.filter(a => a.inputMode === 'typed').length;
+
+  return (
+    <div className="w-full">
+      <select
+        value={selected}
+        onChange={(e) => setSelected(Number(e.target.value))}
+        className="text-black text-xs p-2 rounded-lg w-full mb-3"
+      >
+        {sessions.map((s, i) => (
+          <option key={s.startedAt} value={i}>
+            {text.sessionOption(new Date(s.startedAt).toLocaleString(locale.speech.lang), s.answers.length)}
+          </option>
+        ))}
+      </select>
+      <ScoreChart answers={session.answers} maxScore={targetAmount} />
+      <p className="text-xs text-gray-300 mt-2">
+        {text.sessionSummary(correct, session.answers.length, typed, session.answers[session.answers.length - 1].scoreAfter)}
+      </p>
+      <div className="max-h-40 overflow-y-auto mt-3 text-[0.6rem] md:text-xs">
+        {session.answers.slice().reverse().map((a) => (
+          <div key={a.answeredAt} className={`flex justify-between py-1 border-b border-gray-700 ${a.correct ? 'text-green-300' : 'text-red-300'}`}>
+            <span dir="ltr" title={a.misconception ? text.misconceptions[a.misconception] : undefined}>{formatQuestion(a)} → {a.given ?? '—'}</span>
+            <span>{a.given === null ? text.timedOut : a.inputMode === 'typed' ? text.typed : a.inputMode === 'voice' ? text.spoken : text.tapped} · {formatSeconds(a.responseMs)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Common mistakes
+// ----------------------------------------------------------------------------
+const CommonMistakes: React.FC<{ answers: AnswerRecord[] }> = ({ answers }) => {
+  const mistakes = useMemo(() => summarizeMisconceptions(answers), [answers]);
+  const text = useLocale().messages.parents;
+
+  if (mistakes.length === 0) {
+    return <p className="text-sm text-gray-300">{text.noMistakes}</p>;
+  }
+
+  const top = mistakes[0].count;
+  return (
+    <div className="flex flex-col gap-2">
+      {mistakes.map(({ misconception, count }) => (
+        <div key={misconception} className="flex items-center gap-3 text-xs md:text-sm">
+          <span className="w-48 shrink-0">{text.misconceptions[misconception]}</span>
+          <div className="flex-1 bg-gray-700 rounded h-3">
+            <div className="bg-red-500 h-3 rounded" style={{ width: `${(count / top) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right">{count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Question type mix
+// ----------------------------------------------------------------------------
+const QuestionTypeSettings: React.FC<{ enabled: QuestionType[]; onChange: (types: QuestionType[]) => void }> = ({ enabled, onChange }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const toggle = (type: QuestionType) => {
+    const next = enabled.includes(type) ? enabled.filter(t => t !== type) : [...enabled, type];
+    // At least one type has to stay on
+    if (next.length > 0) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="flex gap-3 flex-wrap">
+      {QUESTION_TYPES.map((type) => (
+        <button
+          key={type}
+          onClick={() => toggle(type)}
+          aria-pressed={enabled.includes(type)}
+          className={`text-sm font-bold py-2 px-3 rounded-lg ${enabled.includes(type) ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+          style={buttonStyle}
+        >
+          {QUESTION_TYPE_LABELS[type]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Accessibility
+// ----------------------------------------------------------------------------
+const AccessibilitySettingsPanel: React.FC<{ settings: AccessibilitySettings; onChange: (settings: AccessibilitySettings) => void }> = ({ settings, onChange }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const { messages } = useLocale();
+  const text = messages.accessibility;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="flex items-center gap-2 text-sm text-white font-bold">
+        <input type="checkbox" checked={settings.colorBlindFeedback} onChange={(e) => onChange({ ...settings, colorBlindFeedback: e.target.checked })} />
+        {text.colorBlind}
+      </label>
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-sm text-white font-bold">{text.motion}</span>
+        {MOTION_PREFERENCES.map((motion) => (
+          <button
+            key={motion}
+            onClick={() => onChange({ ...settings, motion })}
+            aria-pressed={settings.motion === motion}
+            className={`text-sm font-bold py-2 px-3 rounded-lg ${settings.motion === motion ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+            style={buttonStyle}
+          >
+            {text.motions[motion]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Theme
+// ----------------------------------------------------------------------------
+const ThemeSettings: React.FC<{ selected: ThemeId; onChange: (theme: ThemeId) => void }> = ({ selected, onChange }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const { messages } = useLocale();
+
+  return (
+    <div className="flex gap-3 flex-wrap">
+      {THEME_IDS.map((id) => {
+        const { Icon } = THEMES[id].currency;
+        return (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            aria-pressed={selected === id}
+            className={`flex items-center gap-2 text-sm font-bold py-2 px-3 rounded-lg ${selected === id ? 'bg-purple-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+            style={buttonStyle}
+          >
+            <Icon className="w-5 h-5" />
+            {messages.parents.themes[id]}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Dashboard
+// ----------------------------------------------------------------------------
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ profiles, parentPin, onSetPin, onUpdateRules, onUpdateQuestionTypes, onUpdateVoiceSettings, onUpdateSoundSettings, onUpdateAccessibility, onUpdateTheme, onImportProfile, onExit }) => {
+  const theme = useTheme();
+  const panelStyle = getFrameStyle(theme, 4, 8);
+  const buttonStyle = getFrameStyle(theme, 2, 4);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [profileId, setProfileId] = useState(profiles[0]?.id);
+  const profile = profiles.find(p => p.id === profileId) ?? profiles[0];
+  const { messages } = useLocale();
+  const text = messages.parents;
+
+  if (!isUnlocked) {
+    return <PinGate parentPin={parentPin} onSetPin={onSetPin} onUnlock={() => setIsUnlocked(true)} onExit={onExit} />;
+  }
+
+  return (
+    <div className="flex flex-col bg-slate-900 bg-opacity-90 p-4 md:p-6 rounded-2xl w-full max-w-5xl max-h-full overflow-y-auto" style={panelStyle}>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-xl md:text-3xl text-white font-bold" style={{ textShadow: '3px 3px #000000' }}>
+          {text.title}
+        </h1>
+        <button onClick={onExit} className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-red-600 hover:bg-red-700" style={buttonStyle}>
+          {messages.common.close}
+        </button>
+      </div>
+
+      {!profile ? (
+        <p className="text-gray-300">{text.noPlayers}</p>
+      ) : (
+        <>
+          <div className="flex gap-2 flex-wrap mb-6">
+            {profiles.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => setProfileId(p.id)}
+                className={`text-sm font-bold py-2 px-3 rounded-lg ${p.id === profile.id ? 'bg-yellow-500 text-black' : 'bg-gray-600 text-white'}`}
+                style={buttonStyle}
+              >
+                {p.avatar} {p.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <section>
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.timesTables}</h2>
+              <FactHeatmap answers={profile.answers} />
+            </section>
+            <section>
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.sessions}</h2>
+              <SessionHistory key={profile.id} answers={profile.answers} targetAmount={profile.rules.targetAmount} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.commonMistakes}</h2>
+              <CommonMistakes answers={profile.answers} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.questionTypes}</h2>
+              <QuestionTypeSettings enabled={profile.questionTypes} onChange={(types) => onUpdateQuestionTypes(profile.id, types)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.theme}</h2>
+              <ThemeSettings selected={profile.theme} onChange={(theme) => onUpdateTheme(profile.id, theme)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.rewards}</h2>
+              {/* A new theme can rename the reward, so the form starts over with it */}
+              <RewardSettings key={`${profile.id}-${profile.theme}`} rules={profile.rules} onSave={(rules) => onUpdateRules(profile.id, rules)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.voice}</h2>
+              <VoiceSettingsPanel key={profile.id} settings={profile.voice} onSave={(voice) => onUpdateVoiceSettings(profile.id, voice)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.sound}</h2>
+              <SoundSettingsPanel key={profile.id} settings={profile.sound} onSave={(sound) => onUpdateSoundSettings(profile.id, sound)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.accessibility}</h2>
+              <AccessibilitySettingsPanel settings={profile.accessibility} onChange={(settings) => onUpdateAccessibility(profile.id, settings)} />
+            </section>
+            <section className="lg:col-span-2">
+              <h2 className="text-lg text-yellow-300 font-bold mb-3">{text.transfer}</h2>
+              <ProfileTransfer key={profile.id} profile={profile} profiles={profiles} onImport={onImportProfile} />
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ParentDashboard;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Assignment, Profile } from '../types';
+import { AVATARS, MAX_NAME_LENGTH } from '../services/profiles';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// PROFILE SELECTOR
+// ============================================================================
+interface ProfileSelectorProps {
+  profiles: Profile[];
+  onSelectProfile: (id: string) => void;
+  onCreateProfile: (name: string, avatar: string) => void;
+  onRenameProfile: (id: string, name: string, avatar: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onOpenParentDashboard: () => void;
+  onOpenVersus: () => void;
+  // Set when a homework link was opened: the chosen player starts it
+  assignment: Assignment | null;
+  onOpenHomework: () => void;
+}
+
+// null while browsing, 'new' while creating, otherwise the id being edited
+type EditTarget = null | 'new' | string;
+
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ profiles, onSelectProfile, onCreateProfile, onRenameProfile, onDeleteProfile, onOpenParentDashboard, onOpenVersus, assignment, onOpenHomework }) => {
+  const [editTarget, setEditTarget] = useState<EditTarget>(profiles.length === 0 ? 'new' : null);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(AVATARS[0]);
+  const { messages } = useLocale();
+  const text = messages.profiles;
+
+  const startEditing = (profile?: Profile) => {
+    setEditTarget(profile ? profile.id : 'new');
+    setName(profile ? profile.name : '');
+    setAvatar(profile ? profile.avatar : AVATARS[profiles.length % AVATARS.length]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (editTarget === 'new') {
+      onCreateProfile(name, avatar);
+    } else if (editTarget) {
+      onRenameProfile(editTarget, name, avatar);
+    }
+    setEditTarget(null);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (window.confirm(text.confirmDelete(profile.name))) {
+      onDeleteProfile(profile.id);
+    }
+  };
+
+  if (editTarget) {
+    return (
+      <form onSubmit={handleSubmit} className="flex flex-col items-center justify-center bg-black bg-opacity-50 p-8 rounded-2xl shadow-lg backdrop-blur-sm w-full max-w-2xl">
+        <h1 className="text-3xl md:text-4xl text-white font-bold mb-6 text-center" style={{ textShadow: '4px 4px #000000' }}>
+          {editTarget === 'new' ? text.newPlayer : text.editPlayer}
+        </h1>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          placeholder={text.namePlaceholder}
+          className="text-black text-2xl md:text-3xl text-center font-bold p-4 rounded-2xl w-full max-w-sm mb-6 bg-white"
+          style={{ border: '4px solid black', boxShadow: 'inset 5px 5px 10px #00000040' }}
+          autoFocus
+        />
+
+        <div className="grid grid-cols-4 gap-4 mb-8">
+          {AVATARS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAvatar(option)}
+              className={`text-4xl md:text-5xl p-3 rounded-xl bg-gray-700 transition-transform transform hover:scale-110 ${avatar === option ? 'ring-4 ring-yellow-400 scale-110' : ''}`}
+              style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-4">
+          {profiles.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setEditTarget(null)}
+              className="text-white text-xl font-bold py-3 px-6 rounded-lg bg-gray-600 hover:bg-gray-700"
+              style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+            >
+              {messages.common.cancel}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="text-white text-xl font-bold py-3 px-6 rounded-lg bg-green-500 hover:bg-green-600 disabled:bg-gray-500 disabled:cursor-not-allowed"
+            style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+          >
+            {messages.common.save}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center bg-black bg-opacity-50 p-8 rounded-2xl shadow-lg backdrop-blur-sm w-full max-w-4xl">
+      <h1 className="text-3xl md:text-5xl text-white font-bold mb-8 text-center" style={{ textShadow: '4px 4px #000000' }}>
+        {text.title}
+      </h1>
+
+      {assignment && (
+        <p role="status" className="text-lg md:text-xl text-gray-900 font-bold bg-yellow-300 p-3 px-5 rounded-lg mb-6 text-center" style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}>
+          📝 {messages.homework.pickPlayer(assignment.title, assignment.questionCount)}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-6 w-full">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="relative">
+            <button
+              onClick={() => onSelectProfile(profile.id)}
+              className="w-full flex flex-col items-center text-white font-bold py-6 px-4 rounded-lg bg-blue-600 hover:bg-blue-700 transition-transform transform hover:scale-105"
+              style={{ border: '4px solid black', boxShadow: '8px 8px 0px #000000' }}
+            >
+              <span className="text-5xl md:text-6xl mb-3">{profile.avatar}</span>
+              <span className="text-lg md:text-xl truncate max-w-full">{profile.name}</span>
+              <span className="text-sm text-yellow-300 mt-2 truncate max-w-full">{profile.robuxScore} {profile.rules.rewardName}</span>
+            </button>
+            <div className="absolute top-2 right-2 flex gap-1">
+              <button
+                onClick={() => startEditing(profile)}
+                aria-label={text.rename(profile.name)}
+                className="bg-black bg-opacity-60 rounded-full w-8 h-8 text-sm hover:bg-opacity-80"
+              >
+                ✏️
+              </button>
+              <button
+                onClick={() => handleDelete(profile)}
+                aria-label={text.remove(profile.name)}
+                className="bg-black bg-opacity-60 rounded-full w-8 h-8 text-sm hover:bg-opacity-80"
+              >
+                🗑️
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() => startEditing()}
+          className="flex flex-col items-center justify-center text-white font-bold py-6 px-4 rounded-lg bg-green-500 hover:bg-green-600 transition-transform transform hover:scale-105"
+          style={{ border: '4px solid black', boxShadow: '8px 8px 0px #000000' }}
+        >
+          <span className="text-5xl md:text-6xl mb-3">+</span>
+          <span className="text-lg md:text-xl">{text.newPlayer}</span>
+        </button>
+      </div>
+
+      <div className="mt-8 flex gap-4 flex-wrap justify-center">
+        {/* Versus needs two players on this device */}
+        {profiles.length >= 2 && (
+          <button
+            onClick={onOpenVersus}
+            className="text-white text-sm md:text-base font-bold py-3 px-6 rounded-lg bg-orange-500 hover:bg-orange-600"
+            style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}
+          >
+            {messages.versus.open}
+          </button>
+        )}
+        <button
+          onClick={onOpenHomework}
+          className="text-white text-sm md:text-base font-bold py-3 px-6 rounded-lg bg-teal-600 hover:bg-teal-700"
+          style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}
+        >
+          {messages.homework.open}
+        </button>
+        <button
+          onClick={onOpenParentDashboard}
+          className="text-white text-sm md:text-base font-bold py-3 px-6 rounded-lg bg-gray-700 hover:bg-gray-800"
+          style={{ border: '2px solid black', boxShadow: '4px 4px 0px #000000' }}
+        >
+          {text.parents}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSelector;
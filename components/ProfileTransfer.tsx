@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { Profile } from '../types';
+import { answersToCsv, copyAsNewProfile, exportProfileJson, findMergeTarget, masteryToCsv, mergeProfiles, parseProfileExport } from '../services/transfer';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle } from './themes';
+
+// ============================================================================
+// EXPORT AND IMPORT
+// ============================================================================
+interface ProfileTransferProps {
+  profile: Profile;
+  profiles: Profile[];
+  // Adds the profile, or replaces the one with the same id
+  onImport: (profile: Profile) => void;
+}
+
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download only after this tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Spreadsheet apps need the byte order mark to read Hebrew and Russian names
+const CSV_BOM = '\uFEFF';
+
+const ProfileTransfer: React.FC<ProfileTransferProps> = ({ profile, profiles, onImport }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  // An import waiting for the parent to pick who it belongs to. `match` is the
+  // player it looks like, if any; `targetId` is whoever it would be merged into.
+  const [pending, setPending] = useState<{ incoming: Profile; match: Profile | null; targetId: string } | null>(null);
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { messages } = useLocale();
+  const text = messages.transfer;
+
+  const fileName = (suffix: string) => `${profile.name.replace(/[^\p{L}\p{N}]+/gu, '-') || 'player'}-${suffix}`;
+
+  const finishImport = (imported: Profile) => {
+    onImport(imported);
+    setPending(null);
+    setStatus(text.imported(imported.name));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(json => {
+      const result = parseProfileExport(json);
+      if ('error' in result) {
+        setPending(null);
+        setStatus(text.errors[result.error]);
+        return;
+      }
+      if (profiles.length === 0) {
+        finishImport(result.profile);
+        return;
+      }
+      // The same child may have been set up separately on each device, so the parent can merge into anyone
+      const match = findMergeTarget(profiles, result.profile);
+      setStatus('');
+      setPending({ incoming: result.profile, match, targetId: (match ?? profiles[0]).id });
+    }, () => {
+      setPending(null);
+      setStatus(text.readFailed);
+    });
+  };
+
+  const mergeTarget = pending && profiles.find(p => p.id === pending.targetId);
+
+  // Keeps the imported id unless a player here already has it
+  const addAsNew = (incoming: Profile) =>
+    finishImport(profiles.some(p => p.id === incoming.id) ? copyAsNewProfile(incoming) : incoming);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-3 flex-wrap">
+        <button onClick={() => downloadFile(fileName('answers.csv'), CSV_BOM + answersToCsv(profile), 'text/csv')} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700" style={buttonStyle}>
+          {text.exportAnswers}
+        </button>
+        <button onClick={() => downloadFile(fileName('facts.csv'), CSV_BOM + masteryToCsv(profile), 'text/csv')} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700" style={buttonStyle}>
+          {text.exportFacts}
+        </button>
+        <button onClick={() => downloadFile(fileName('backup.json'), exportProfileJson(profile), 'application/json')} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-purple-600 hover:bg-purple-700" style={buttonStyle}>
+          {text.exportBackup}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <button onClick={() => fileInputRef.current?.click()} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-green-600 hover:bg-green-700" style={buttonStyle}>
+          {text.importBackup}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        <span className="text-xs text-gray-300">{text.importHint}</span>
+      </div>
+
+      {pending && (
+        <div className="flex items-center gap-3 flex-wrap bg-slate-800 p-3 rounded-lg" role="alert">
+          <span className="text-sm text-white">{pending.match ? text.conflict(pending.match.name) : text.noMatch(pending.incoming.name)}</span>
+          <label className="flex items-center gap-2 text-sm text-white">
+            {text.mergeInto}
+            <select
+              value={pending.targetId}
+              onChange={(e) => setPending({ ...pending, targetId: e.target.value })}
+              className="text-black text-sm p-2 rounded-lg"
+            >
+              {profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={() => mergeTarget && finishImport(mergeProfiles(mergeTarget, pending.incoming))} disabled={!mergeTarget} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-500" style={buttonStyle}>
+            {text.merge}
+          </button>
+          <button onClick={() => addAsNew(pending.incoming)} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700" style={buttonStyle}>
+            {pending.match ? text.keepBoth : text.addNew}
+          </button>
+          <button onClick={() => setPending(null)} className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-gray-600 hover:bg-gray-700" style={buttonStyle}>
+            {messages.common.cancel}
+          </button>
+        </div>
+      )}
+      {status && <p className="text-sm text-yellow-300" role="status">{status}</p>}
+    </div>
+  );
+};
+
+export default ProfileTransfer;
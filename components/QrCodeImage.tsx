@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { createQrCode } from '../services/qrCode';
+
+// ============================================================================
+// QR CODE IMAGE
+// ============================================================================
+interface QrCodeImageProps {
+  text: string;
+  label: string;
+  // Shown instead when the text doesn't fit in a QR code
+  fallback: React.ReactNode;
+}
+
+// Scanners need a light margin of 4 modules around the code
+const QUIET_ZONE = 4;
+
+const QrCodeImage: React.FC<QrCodeImageProps> = ({ text, label, fallback }) => {
+  const matrix = useMemo(() => createQrCode(text), [text]);
+  if (!matrix) return <>{fallback}</>;
+
+  const size = matrix.length + QUIET_ZONE * 2;
+  // One path of 1x1 squares keeps the SVG small
+  const path = matrix.flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : ''))).join('');
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} className="w-48 h-48 md:w-64 md:h-64 bg-white rounded-lg" shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCodeImage;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { PenaltyTier, RewardRules } from '../types';
+import { DEFAULT_REWARD_RULES, REWARD_NAME_PRESETS, RULE_LIMITS, sanitizeRewardRules } from '../services/rewardRules';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle } from './themes';
+
+// ============================================================================
+// REWARD SETTINGS
+// ============================================================================
+interface RewardSettingsProps {
+  rules: RewardRules;
+  onSave: (rules: RewardRules) => void;
+}
+
+const inputClass = 'text-black text-sm font-bold p-2 rounded-lg w-full bg-white';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, onChange }) => (
+  <label className="flex flex-col text-xs text-gray-300 gap-1">
+    {label}
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(e.target.valueAsNumber)}
+      className={inputClass}
+    />
+  </label>
+);
+
+const RewardSettings: React.FC<RewardSettingsProps> = ({ rules, onSave }) => {
+  const buttonStyle = getFrameStyle(useTheme(), 2, 4);
+  const [draft, setDraft] = useState<RewardRules>(rules);
+  const [saved, setSaved] = useState(false);
+  const { messages } = useLocale();
+  const text = messages.rewards;
+
+  const update = (changes: Partial<RewardRules>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const updateTier = (index: number, changes: Partial<PenaltyTier>) => {
+    update({ penaltyTiers: draft.penaltyTiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleaned = sanitizeRewardRules(draft);
+    setDraft(cleaned);
+    onSave(cleaned);
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <NumberField
+          label={text.targetAmount}
+          value={draft.targetAmount}
+          min={RULE_LIMITS.targetAmount.min}
+          max={RULE_LIMITS.targetAmount.max}
+          onChange={(targetAmount) => update({ targetAmount })}
+        />
+        <label className="flex flex-col text-xs text-gray-300 gap-1">
+          {text.rewardName}
+          <input
+            type="text"
+            list="reward-name-presets"
+            maxLength={RULE_LIMITS.rewardNameLength}
+            value={draft.rewardName}
+            onChange={(e) => update({ rewardName: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id="reward-name-presets">
+            {REWARD_NAME_PRESETS.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </label>
+        <NumberField
+          label={text.pointsPerCorrect}
+          value={draft.pointsPerCorrect}
+          min={RULE_LIMITS.pointsPerCorrect.min}
+          max={RULE_LIMITS.pointsPerCorrect.max}
+          onChange={(pointsPerCorrect) => update({ pointsPerCorrect })}
+        />
+        <NumberField
+          label={text.typedFrom}
+          value={draft.typedModeThreshold}
+          min={0}
+          max={draft.targetAmount}
+          onChange={(typedModeThreshold) => update({ typedModeThreshold })}
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm text-yellow-300 font-bold mb-2">{text.penaltyTitle}</h3>
+        {draft.penaltyTiers.map((tier, index) => (
+          <div key={index} className="flex items-end gap-2 mb-2">
+            <NumberField label={text.fromScore} value={tier.minScore} min={0} max={draft.targetAmount} onChange={(minScore) => updateTier(index, { minScore })} />
+            <NumberField label={text.lose} value={tier.penalty} min={RULE_LIMITS.penalty.min} max={RULE_LIMITS.penalty.max} onChange={(penalty) => updateTier(index, { penalty })} />
+            <button
+              type="button"
+              onClick={() => update({ penaltyTiers: draft.penaltyTiers.filter((_, i) => i !== index) })}
+              aria-label={text.removeTier}
+              className="text-white text-sm font-bold py-2 px-3 rounded-lg bg-red-600 hover:bg-red-700"
+              style={buttonStyle}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {draft.penaltyTiers.length < RULE_LIMITS.penaltyTiers && (
+          <button
+            type="button"
+            onClick={() => update({ penaltyTiers: [...draft.penaltyTiers, { minScore: draft.targetAmount, penalty: 0 }] })}
+            className="text-white text-xs font-bold py-2 px-3 rounded-lg bg-gray-600 hover:bg-gray-700"
+            style={buttonStyle}
+          >
+            {text.addTier}
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => update(DEFAULT_REWARD_RULES)}
+          className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-gray-600 hover:bg-gray-700"
+          style={buttonStyle}
+        >
+          {text.defaults}
+        </button>
+        <button type="submit" className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-green-500 hover:bg-green-600" style={buttonStyle}>
+          {messages.common.save}
+        </button>
+        {saved && <span className="text-green-300 text-xs">{messages.common.saved}</span>}
+      </div>
+    </form>
+  );
+};
+
+export default RewardSettings;
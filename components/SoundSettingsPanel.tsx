@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { SoundSettings } from '../types';
+import { DEFAULT_SOUND_SETTINGS, sanitizeSoundSettings, SOUND_VOLUME_LIMITS } from '../services/soundSettings';
+import { previewSound } from '../services/sound';
+import { useLocale } from './LocaleContext';
+import { RangeField } from './VoiceSettingsPanel';
+
+// ============================================================================
+// SOUND SETTINGS
+// ============================================================================
+interface SoundSettingsPanelProps {
+  settings: SoundSettings;
+  onSave: (settings: SoundSettings) => void;
+}
+
+const buttonStyle = { border: '2px solid black', boxShadow: '4px 4px 0px #000000' };
+
+const SoundSettingsPanel: React.FC<SoundSettingsPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<SoundSettings>(settings);
+  const [saved, setSaved] = useState(false);
+  const { messages } = useLocale();
+  const text = messages.sound;
+  const { min, max } = SOUND_VOLUME_LIMITS;
+
+  const update = (changes: Partial<SoundSettings>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleaned = sanitizeSoundSettings(draft);
+    setDraft(cleaned);
+    onSave(cleaned);
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <label className="flex items-center gap-2 text-sm text-white font-bold">
+        <input type="checkbox" checked={draft.muted} onChange={(e) => update({ muted: e.target.checked })} />
+        {text.muted}
+      </label>
+
+      {!draft.muted && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2 bg-black bg-opacity-40 p-3 rounded-lg" style={{ border: '2px solid black' }}>
+            <RangeField label={text.effectsVolume} value={draft.effectsVolume} min={min} max={max} onChange={(effectsVolume) => update({ effectsVolume })} />
+            <button
+              type="button"
+              onClick={() => previewSound('coin', draft)}
+              className="text-white text-xs font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700"
+              style={buttonStyle}
+            >
+              {text.preview}
+            </button>
+          </div>
+          <div className="flex flex-col gap-2 bg-black bg-opacity-40 p-3 rounded-lg" style={{ border: '2px solid black' }}>
+            <label className="flex items-center gap-2 text-sm text-white font-bold">
+              <input type="checkbox" checked={draft.music} onChange={(e) => update({ music: e.target.checked })} />
+              {text.music}
+            </label>
+            {draft.music && (
+              <RangeField label={text.musicVolume} value={draft.musicVolume} min={min} max={max} onChange={(musicVolume) => update({ musicVolume })} />
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => update(DEFAULT_SOUND_SETTINGS)}
+          className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-gray-600 hover:bg-gray-700"
+          style={buttonStyle}
+        >
+          {messages.voice.defaults}
+        </button>
+        <button type="submit" className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-green-500 hover:bg-green-600" style={buttonStyle}>
+          {messages.common.save}
+        </button>
+        {saved && <span className="text-green-300 text-xs">{messages.common.saved}</span>}
+      </div>
+    </form>
+  );
+};
+
+export default SoundSettingsPanel;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { TableSelection } from '../types';
+import { MAX_FACTOR } from '../services/mastery';
+import { isValidTableSelection, MIN_MULTIPLIER } from '../services/tableSelection';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// TABLE PICKER
+// ============================================================================
+interface TablePickerProps {
+  initialSelection: TableSelection;
+  onStart: (selection: TableSelection) => void;
+  onCancel: () => void;
+}
+
+const TABLES = Array.from({ length: MAX_FACTOR }, (_, i) => i + 1);
+const MULTIPLIERS = Array.from({ length: MAX_FACTOR - MIN_MULTIPLIER + 1 }, (_, i) => i + MIN_MULTIPLIER);
+
+const TablePicker: React.FC<TablePickerProps> = ({ initialSelection, onStart, onCancel }) => {
+  const [tables, setTables] = useState<number[]>(initialSelection.tables);
+  const [maxMultiplier, setMaxMultiplier] = useState<number | null>(initialSelection.maxMultiplier);
+  const selection: TableSelection = { tables, maxMultiplier };
+  const { messages } = useLocale();
+
+  const toggleTable = (table: number) => {
+    setTables(current => current.includes(table)
+      ? current.filter(t => t !== table)
+      : [...current, table].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-2xl">
+      <h2 className="text-xl md:text-2xl text-white font-bold mb-4 text-center" style={{ textShadow: '2px 2px #000000' }}>
+        {messages.tables.title}
+      </h2>
+
+      <div className="grid grid-cols-4 md:grid-cols-6 gap-3 md:gap-4 w-full mb-6">
+        {TABLES.map((table) => {
+          const isSelected = tables.includes(table);
+          return (
+            <button
+              key={table}
+              onClick={() => toggleTable(table)}
+              aria-pressed={isSelected}
+              className={`text-white text-2xl font-bold py-4 rounded-lg transition-transform transform hover:scale-105 ${isSelected ? 'bg-purple-600 ring-4 ring-yellow-400' : 'bg-gray-600'}`}
+              style={{ border: '3px solid black', boxShadow: '4px 4px 0px #000000' }}
+            >
+              ×{table}
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center gap-3 text-white text-base md:text-lg font-bold mb-8" style={{ textShadow: '2px 2px #000000' }}>
+        {messages.tables.upTo}
+        <select
+          value={maxMultiplier ?? ''}
+          onChange={(e) => setMaxMultiplier(e.target.value ? Number(e.target.value) : null)}
+          className="text-black text-base font-bold p-2 rounded-lg"
+          style={{ border: '2px solid black' }}
+        >
+          <option value="">{messages.tables.all(MAX_FACTOR)}</option>
+          {MULTIPLIERS.filter(n => n < MAX_FACTOR).map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </label>
+
+      <div className="flex gap-4">
+        <button
+          onClick={onCancel}
+          className="text-white text-xl font-bold py-4 px-8 rounded-lg bg-gray-600 hover:bg-gray-700"
+          style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+        >
+          {messages.common.back}
+        </button>
+        <button
+          onClick={() => onStart(selection)}
+          disabled={!isValidTableSelection(selection)}
+          className="text-white text-xl font-bold py-4 px-8 rounded-lg bg-green-500 hover:bg-green-600 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+        >
+          {messages.common.start}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TablePicker;
@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_THEME } from '../services/themes';
+import { Theme, THEMES } from './themes';
+
+// ============================================================================
+// THEME CONTEXT
+// ============================================================================
+// App provides the active player's theme; screens take their artwork and colors from here.
+export const ThemeContext = createContext<Theme>(THEMES[DEFAULT_THEME]);
+
+export const useTheme = (): Theme => useContext(ThemeContext);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AchievementId } from '../types';
+import { formatPersonalBest, RoundResult } from '../services/gameModes';
+import { useLocale } from './LocaleContext';
+import AchievementToast from './AchievementToast';
+
+// ============================================================================
+// TIME UP SCREEN (60-second blitz results)
+// ============================================================================
+interface TimeUpScreenProps {
+  onPlayAgain: () => void;
+  result: RoundResult | null;
+  achievementToast: AchievementId | null;
+  onAchievementToastDone: () => void;
+}
+
+const TimeUpScreen: React.FC<TimeUpScreenProps> = ({ onPlayAgain, result, achievementToast, onAchievementToastDone }) => {
+  const { messages } = useLocale();
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-md">
+      {achievementToast && <AchievementToast key={achievementToast} achievement={achievementToast} onDone={onAchievementToastDone} />}
+      <div className="relative bg-gradient-to-br from-sky-300 to-indigo-500 p-8 md:p-12 m-4 rounded-2xl shadow-2xl text-center text-gray-900 max-w-2xl w-full border-8 border-indigo-600"
+           style={{ textShadow: '2px 2px #ffffffaa' }}>
+        <div className="text-7xl md:text-8xl mb-6">⏱</div>
+        <h1 className="text-4xl md:text-6xl font-bold mb-4">{messages.timeUp.title}</h1>
+        {result && (
+          <p className="text-2xl md:text-3xl mb-4">
+            {messages.timeUp.correct(result.value)}
+          </p>
+        )}
+        {result?.isNewRecord && (
+          <p className="text-xl md:text-2xl font-bold mb-4 animate-pulse">
+            {messages.common.newRecord(messages.setup.modes[result.mode].bestLabel, formatPersonalBest(result.mode, result.value))}
+          </p>
+        )}
+        <button
+          autoFocus
+          onClick={onPlayAgain}
+          className="mt-4 bg-green-500 text-white text-2xl font-bold py-4 px-10 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-300"
+          style={{ 
+            border: '4px solid black',
+            boxShadow: '6px 6px 0px #000000'
+          }}
+        >
+          {messages.common.playAgain}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimeUpScreen;
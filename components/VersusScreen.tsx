@@ -0,0 +1,143 @@
+import React, { useEffect, useReducer } from 'react';
+import { Language, VersusStyle, VoiceSettings, Difficulty } from '../types';
+import { browserEnv } from '../services/gameEngine';
+import { canAnswer, createVersusReducer, createVersusState, VersusPlayer, VersusState } from '../services/versus';
+import { formatQuestion, getQuestionText } from '../services/questionTypes';
+import { cancelSpeech, speakText } from '../services/speech';
+import { playSound } from '../services/sound';
+import { FireIcon } from './icons';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle, Theme } from './themes';
+
+// ============================================================================
+// VERSUS SCREEN
+// ============================================================================
+interface VersusScreenProps {
+  style: VersusStyle;
+  players: { name: string; avatar: string }[];
+  difficulty: Difficulty;
+  language: Language;
+  voiceSettings: VoiceSettings;
+  onFinish: (players: VersusPlayer[], winner: number) => void;
+}
+
+const versusReducer = createVersusReducer(browserEnv);
+
+// How long the result of a question stays on screen
+const RESULT_DELAY_MS = 1250;
+
+const getOptionClass = (state: VersusState, player: number, option: number, { palette }: Theme): string => {
+  const { question, isAnswered, players } = state;
+  if (option === players[player].selection && option !== question?.answer) {
+    return 'bg-red-500';
+  }
+  if (isAnswered) {
+    return option === question?.answer ? 'bg-green-500 animate-pulse' : `${palette.option} opacity-50`;
+  }
+  return canAnswer(state, player) ? `${palette.option} ${palette.optionHover}` : `${palette.option} opacity-50`;
+};
+
+const PlayerBadge: React.FC<{ player: VersusPlayer; isActive: boolean; scored: boolean }> = ({ player, isActive, scored }) => (
+  <div
+    className={`flex items-center gap-2 bg-black bg-opacity-60 p-2 px-4 rounded-full text-white font-bold ${isActive ? 'ring-4 ring-yellow-400' : ''} ${scored ? 'animate-bounce' : ''}`}
+    style={{ border: '2px solid white' }}
+  >
+    <span className="text-2xl md:text-3xl">{player.avatar}</span>
+    <span className="text-sm md:text-base max-w-[8rem] truncate">{player.name}</span>
+    <span className="text-lg md:text-2xl text-yellow-300">{player.score}</span>
+    {player.streak > 1 && (
+      <span className="flex items-center text-orange-400 text-sm">
+        <FireIcon className="w-5 h-5 text-orange-500" />
+        {player.streak}
+      </span>
+    )}
+  </div>
+);
+
+const VersusScreen: React.FC<VersusScreenProps> = ({ style, players, difficulty, language, voiceSettings, onFinish }) => {
+  // Starts on the first question, so a remount (as in StrictMode) can't skip one
+  const [state, dispatch] = useReducer(versusReducer, null, () =>
+    versusReducer(createVersusState(style, players, difficulty, browserEnv.now()), { type: 'next_question' }));
+  const { question, isAnswered, pointTo, turn, winner } = state;
+  const { messages } = useLocale();
+  const theme = useTheme();
+  const questionStyle = { color: theme.palette.outline, textShadow: '3px 3px 4px rgba(255,255,255,0.7)' };
+
+  useEffect(() => () => cancelSpeech(), []);
+
+  useEffect(() => {
+    if (question) {
+      speakText(getQuestionText(question, language), language, voiceSettings);
+    }
+  }, [question]);
+
+  // Show who scored, then move on (or to the winner screen)
+  useEffect(() => {
+    if (!isAnswered) return;
+    playSound(pointTo !== null ? 'coin' : 'buzz');
+    const timer = setTimeout(() => {
+      if (winner !== null) {
+        onFinish(state.players, winner);
+      } else {
+        dispatch({ type: 'next_question' });
+      }
+    }, RESULT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isAnswered, winner]);
+
+  if (!question) {
+    return <div className="text-white text-4xl">{messages.game.loading}</div>;
+  }
+
+  const renderOptions = (player: number, size: 'small' | 'large') => (
+    <div className={`grid grid-cols-2 w-full ${size === 'large' ? 'gap-4 md:gap-8' : 'gap-3'}`}>
+      {question.options.map(({ value }, index) => (
+        <button
+          key={index}
+          onClick={() => dispatch({ type: 'answer', player, given: value })}
+          disabled={!canAnswer(state, player)}
+          className={`text-white font-bold rounded-2xl shadow-xl transition-all duration-300 disabled:cursor-not-allowed ${size === 'large' ? 'text-4xl md:text-6xl py-10 md:py-16' : 'text-3xl md:text-5xl py-6 md:py-10'} ${getOptionClass(state, player, value, theme)}`}
+          style={getFrameStyle(theme, 6, 8)}
+        >
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (style === 'split_screen') {
+    return (
+      <div className="grid grid-cols-2 gap-4 md:gap-8 h-full w-full p-2">
+        {state.players.map((player, index) => (
+          <div key={index} className="flex flex-col items-center justify-center gap-4 bg-black bg-opacity-30 rounded-2xl p-3 md:p-6">
+            <PlayerBadge player={player} isActive={false} scored={pointTo === index} />
+            <div dir="ltr" className="text-4xl md:text-6xl font-bold" style={questionStyle}>
+              {formatQuestion(question)}
+            </div>
+            {renderOptions(index, 'small')}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full w-full max-w-4xl mx-auto p-4">
+      <div className="flex items-center gap-4 mb-4">
+        {state.players.map((player, index) => (
+          <PlayerBadge key={index} player={player} isActive={turn === index} scored={pointTo === index} />
+        ))}
+      </div>
+      <div className="text-2xl md:text-3xl text-yellow-300 font-bold mb-4" style={{ textShadow: `2px 2px 0 ${theme.palette.outline}` }}>
+        {messages.versus.turn(state.players[turn].name)}
+      </div>
+      <div dir="ltr" className="text-6xl md:text-8xl font-bold mb-8 md:mb-12" style={questionStyle}>
+        {formatQuestion(question)}
+      </div>
+      {renderOptions(turn, 'large')}
+    </div>
+  );
+};
+
+export default VersusScreen;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Difficulty, Profile, VersusStyle } from '../types';
+import { VERSUS_TARGET, VersusSetup } from '../services/versus';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// VERSUS SETUP
+// ============================================================================
+interface VersusSetupScreenProps {
+  profiles: Profile[];
+  onStart: (setup: VersusSetup) => void;
+  onCancel: () => void;
+}
+
+const STYLES: VersusStyle[] = ['split_screen', 'hot_seat'];
+const DIFFICULTIES = [Difficulty.Easy, Difficulty.Moderate, Difficulty.Hard];
+
+const optionStyle = { border: '2px solid black', boxShadow: '4px 4px 0px #000000' };
+
+const VersusSetupScreen: React.FC<VersusSetupScreenProps> = ({ profiles, onStart, onCancel }) => {
+  const [style, setStyle] = useState<VersusStyle>('split_screen');
+  const [playerIds, setPlayerIds] = useState<string[]>(profiles.slice(0, 2).map(p => p.id));
+  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.Easy);
+  const { messages } = useLocale();
+  const text = messages.versus;
+
+  // Picking a third player replaces the one picked first
+  const togglePlayer = (id: string) => {
+    setPlayerIds(current => current.includes(id) ? current.filter(p => p !== id) : [...current, id].slice(-2));
+  };
+
+  const optionClass = (selected: boolean) =>
+    `text-white font-bold py-3 px-5 rounded-lg bg-gray-600 transition-transform transform hover:scale-105 ${selected ? 'ring-4 ring-yellow-400 scale-105' : ''}`;
+
+  return (
+    <div className="flex flex-col items-center bg-black bg-opacity-50 p-6 md:p-8 rounded-2xl shadow-lg backdrop-blur-sm w-full max-w-4xl max-h-full overflow-y-auto">
+      <h1 className="text-3xl md:text-5xl text-white font-bold mb-2 text-center" style={{ textShadow: '4px 4px #000000' }}>
+        {text.title}
+      </h1>
+      <p className="text-white text-sm md:text-base mb-6">{text.firstTo(VERSUS_TARGET)}</p>
+
+      <div className="flex justify-center gap-4 flex-wrap mb-6">
+        {STYLES.map(id => (
+          <button key={id} onClick={() => setStyle(id)} title={text.styles[id].description} className={`flex flex-col items-center ${optionClass(style === id)}`} style={optionStyle}>
+            <span className="text-lg">{text.styles[id].label}</span>
+            <span className="text-xs text-gray-300 mt-1">{text.styles[id].description}</span>
+          </button>
+        ))}
+      </div>
+
+      <h2 className="text-xl text-white font-bold mb-3" style={{ textShadow: '2px 2px #000000' }}>{text.players}</h2>
+      <div className="flex justify-center gap-4 flex-wrap mb-6">
+        {profiles.map(profile => (
+          <button key={profile.id} onClick={() => togglePlayer(profile.id)} aria-pressed={playerIds.includes(profile.id)} className={optionClass(playerIds.includes(profile.id))} style={optionStyle}>
+            <span className="text-3xl me-2">{profile.avatar}</span>
+            <span>{profile.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <h2 className="text-xl text-white font-bold mb-3" style={{ textShadow: '2px 2px #000000' }}>{text.difficulty}</h2>
+      <div className="flex justify-center gap-4 flex-wrap mb-8">
+        {DIFFICULTIES.map(id => (
+          <button key={id} onClick={() => setDifficulty(id)} className={optionClass(difficulty === id)} style={optionStyle}>
+            {messages.setup.difficulties[id]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          onClick={onCancel}
+          className="text-white text-xl font-bold py-3 px-6 rounded-lg bg-gray-600 hover:bg-gray-700"
+          style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+        >
+          {messages.common.back}
+        </button>
+        <button
+          onClick={() => onStart({ style, playerIds, difficulty })}
+          disabled={playerIds.length !== 2}
+          className="text-white text-xl font-bold py-3 px-6 rounded-lg bg-green-500 hover:bg-green-600 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+        >
+          {messages.common.start}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VersusSetupScreen;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { VersusPlayer } from '../services/versus';
+import { useLocale } from './LocaleContext';
+import Celebration from './Celebration';
+
+// ============================================================================
+// VERSUS WINNER SCREEN
+// ============================================================================
+interface VersusWinnerScreenProps {
+  players: VersusPlayer[];
+  winner: number;
+  onPlayAgain: () => void;
+  onExit: () => void;
+}
+
+const VersusWinnerScreen: React.FC<VersusWinnerScreenProps> = ({ players, winner, onPlayAgain, onExit }) => {
+  const { messages } = useLocale();
+  const champion = players[winner];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-md overflow-hidden">
+      <Celebration />
+
+      <div className="relative bg-gradient-to-br from-yellow-300 to-amber-500 p-8 md:p-12 m-4 rounded-2xl shadow-2xl text-center text-gray-800 max-w-2xl w-full border-8 border-yellow-500"
+           style={{ textShadow: '2px 2px #ffffffaa' }}>
+        <div className="text-8xl mb-4 animate-bounce">{champion.avatar}</div>
+        <h1 className="text-4xl md:text-6xl font-bold mb-6">{messages.versus.wins(champion.name)}</h1>
+        <div className="flex justify-center gap-6 mb-8 text-2xl md:text-3xl font-bold">
+          {players.map((player, index) => (
+            <span key={index} className={index === winner ? '' : 'opacity-60'}>
+              {player.avatar} {player.score}
+            </span>
+          ))}
+        </div>
+        <div className="flex justify-center gap-4 flex-wrap">
+          <button
+            onClick={onExit}
+            className="bg-gray-600 text-white text-2xl font-bold py-4 px-8 rounded-lg shadow-lg transition-transform transform hover:scale-105"
+            style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+          >
+            {messages.common.back}
+          </button>
+          <button
+            autoFocus
+            onClick={onPlayAgain}
+            className="bg-green-500 text-white text-2xl font-bold py-4 px-10 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-300"
+            style={{ border: '4px solid black', boxShadow: '6px 6px 0px #000000' }}
+          >
+            {messages.common.playAgain}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersusWinnerScreen;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AchievementId, RewardRules } from '../types';
+import { formatPersonalBest, RoundResult } from '../services/gameModes';
+import { useLocale } from './LocaleContext';
+import { useTheme } from './ThemeContext';
+import { getFrameStyle } from './themes';
+import AchievementToast from './AchievementToast';
+import Celebration from './Celebration';
+
+// ============================================================================
+// VICTORY SCREEN
+// ============================================================================
+interface VictoryScreenProps {
+  onPlayAgain: () => void;
+  rules: RewardRules;
+  result: RoundResult | null;
+  achievementToast: AchievementId | null;
+  onAchievementToastDone: () => void;
+}
+
+const VictoryScreen: React.FC<VictoryScreenProps> = ({ onPlayAgain, rules, result, achievementToast, onAchievementToastDone }) => {
+  const { messages } = useLocale();
+  const theme = useTheme();
+  const CurrencyIcon = theme.currency.Icon;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-md overflow-hidden">
+      {achievementToast && <AchievementToast key={achievementToast} achievement={achievementToast} onDone={onAchievementToastDone} />}
+      
+      <Celebration />
+
+      <div className={`relative bg-gradient-to-br ${theme.palette.victoryCard} p-8 md:p-12 m-4 rounded-2xl shadow-2xl text-center text-gray-800 max-w-2xl w-full border-8`}
+           style={{ textShadow: '2px 2px #ffffffaa' }}>
+        <div className="flex justify-center mb-6 animate-bounce">
+            <CurrencyIcon className="w-24 h-24 text-white drop-shadow-lg" />
+        </div>
+        <h1 className="text-4xl md:text-6xl font-bold mb-4">{messages.victory.title}</h1>
+        <p className="text-2xl md:text-3xl mb-8">
+          {messages.victory.won(rules.targetAmount, rules.rewardName)}
+        </p>
+        {result?.isNewRecord && (
+          <p className="text-xl md:text-2xl font-bold mb-8 animate-pulse">
+            {messages.common.newRecord(messages.setup.modes[result.mode].bestLabel, formatPersonalBest(result.mode, result.value))}
+          </p>
+        )}
+        <button
+          autoFocus
+          onClick={() => {
+              onPlayAgain();
+          }}
+          className="bg-green-500 text-white text-2xl font-bold py-4 px-10 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-green-300"
+          style={getFrameStyle(theme, 4, 6)}
+        >
+          {messages.common.playAgain}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VictoryScreen;
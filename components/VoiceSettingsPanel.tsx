@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Language, VoiceChoice, VoiceSettings } from '../types';
+import { DEFAULT_VOICE_CHOICE, DEFAULT_VOICE_SETTINGS, getVoiceChoice, sanitizeVoiceSettings, VOICE_LIMITS } from '../services/voiceSettings';
+import { getLanguageVoices, getVoices, speakText } from '../services/speech';
+import { getQuestionText } from '../services/questionTypes';
+import { LOCALES } from '../locales';
+import { useLocale } from './LocaleContext';
+
+// ============================================================================
+// VOICE SETTINGS
+// ============================================================================
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  onSave: (settings: VoiceSettings) => void;
+}
+
+const buttonStyle = { border: '2px solid black', boxShadow: '4px 4px 0px #000000' };
+
+interface RangeFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+export const RangeField: React.FC<RangeFieldProps> = ({ label, value, min, max, onChange }) => (
+  <label className="flex flex-col text-xs text-gray-300 gap-1">
+    <span>{label} <span dir="ltr">{value.toFixed(1)}</span></span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={0.1}
+      value={value}
+      onChange={(e) => onChange(e.target.valueAsNumber)}
+    />
+  </label>
+);
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<VoiceSettings>(settings);
+  const [saved, setSaved] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const { messages } = useLocale();
+  const text = messages.voice;
+
+  useEffect(() => {
+    getVoices().then(setVoices);
+  }, []);
+
+  const update = (changes: Partial<VoiceSettings>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const updateChoice = (language: Language, changes: Partial<VoiceChoice>) => {
+    const choice = getVoiceChoice(draft, language) ?? DEFAULT_VOICE_CHOICE;
+    update({ voices: { ...draft.voices, [language]: { ...choice, ...changes } } });
+  };
+
+  // Previews the unsaved settings, even when reading aloud is turned off
+  const handlePreview = (language: Language) => {
+    speakText(getQuestionText({ num1: 7, num2: 8, type: 'multiplication' }, language), language, { ...draft, muted: false });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleaned = sanitizeVoiceSettings(draft);
+    setDraft(cleaned);
+    onSave(cleaned);
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <label className="flex items-center gap-2 text-sm text-white font-bold">
+        <input type="checkbox" checked={draft.muted} onChange={(e) => update({ muted: e.target.checked })} />
+        {text.muted}
+      </label>
+
+      {!draft.muted && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {LOCALES.map(({ id, name }) => {
+            const choice = getVoiceChoice(draft, id) ?? DEFAULT_VOICE_CHOICE;
+            const languageVoices = getLanguageVoices(voices, id);
+            return (
+              <div key={id} className="flex flex-col gap-2 bg-black bg-opacity-40 p-3 rounded-lg" style={{ border: '2px solid black' }}>
+                <h3 className="text-sm text-white font-bold">{name}</h3>
+                <label className="flex flex-col text-xs text-gray-300 gap-1">
+                  {text.voice}
+                  <select
+                    value={choice.voiceName ?? ''}
+                    onChange={(e) => updateChoice(id, { voiceName: e.target.value || null })}
+                    className="text-black text-sm font-bold p-2 rounded-lg w-full bg-white"
+                  >
+                    <option value="">{text.automatic}</option>
+                    {languageVoices.map(voice => <option key={voice.name} value={voice.name}>{voice.name}</option>)}
+                  </select>
+                </label>
+                {languageVoices.length === 0 && <p className="text-xs text-red-300">{text.noVoices}</p>}
+                <RangeField label={text.rate} value={choice.rate} min={VOICE_LIMITS.rate.min} max={VOICE_LIMITS.rate.max} onChange={(rate) => updateChoice(id, { rate })} />
+                <RangeField label={text.pitch} value={choice.pitch} min={VOICE_LIMITS.pitch.min} max={VOICE_LIMITS.pitch.max} onChange={(pitch) => updateChoice(id, { pitch })} />
+                <RangeField label={text.volume} value={choice.volume} min={VOICE_LIMITS.volume.min} max={VOICE_LIMITS.volume.max} onChange={(volume) => updateChoice(id, { volume })} />
+                <button
+                  type="button"
+                  onClick={() => handlePreview(id)}
+                  className="text-white text-xs font-bold py-2 px-3 rounded-lg bg-blue-600 hover:bg-blue-700"
+                  style={buttonStyle}
+                >
+                  {text.preview}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => update(DEFAULT_VOICE_SETTINGS)}
+          className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-gray-600 hover:bg-gray-700"
+          style={buttonStyle}
+        >
+          {text.defaults}
+        </button>
+        <button type="submit" className="text-white text-sm font-bold py-2 px-4 rounded-lg bg-green-500 hover:bg-green-600" style={buttonStyle}>
+          {messages.common.save}
+        </button>
+        {saved && <span className="text-green-300 text-xs">{messages.common.saved}</span>}
+      </div>
+    </form>
+  );
+};
+
+export default VoiceSettingsPanel;
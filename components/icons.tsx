@@ -0,0 +1,79 @@
+import React from 'react';
+
+// ============================================================================
+// ICONS
+// ============================================================================
+export const RobuxIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M12 2C6.47715 2 2 6.47715 2 12C2 17.5228 6.47715 22 12 22C17.5228 22 22 17.5228 22 12C22 6.47715 17.5228 2 12 2Z" fill="url(#paint0_linear_1_2)"/>
+    <path d="M12 5L15 9H9L12 5Z" fill="white"/>
+    <path d="M12 19L9 15H15L12 19Z" fill="white"/>
+    <path d="M5 12L9 15V9L5 12Z" fill="white"/>
+    <path d="M19 12L15 9V15L19 12Z" fill="white"/>
+    <defs>
+      <linearGradient id="paint0_linear_1_2" x1="12" y1="2" x2="12" y2="22" gradientUnits="userSpaceOnUse">
+        <stop stopColor="#FBBF24"/>
+        <stop offset="1" stopColor="#F59E0B"/>
+      </linearGradient>
+    </defs>
+  </svg>
+);
+
+export const StarIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M12 1.5L15.1 8L22 8.9L16.9 13.6L18.3 20.5L12 17L5.7 20.5L7.1 13.6L2 8.9L8.9 8L12 1.5Z" fill="url(#star_fill)" stroke="#92400E" strokeWidth="1" strokeLinejoin="round"/>
+    <path d="M12 5L13.6 9.6L9 10L12 5Z" fill="white" opacity="0.7"/>
+    <defs>
+      <linearGradient id="star_fill" x1="12" y1="1.5" x2="12" y2="20.5" gradientUnits="userSpaceOnUse">
+        <stop stopColor="#FDE047"/>
+        <stop offset="1" stopColor="#F59E0B"/>
+      </linearGradient>
+    </defs>
+  </svg>
+);
+
+export const PawIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <circle cx="12" cy="12" r="11" fill="#FB923C"/>
+    <ellipse cx="12" cy="15" rx="4.5" ry="3.8" fill="white"/>
+    <ellipse cx="6.8" cy="10.8" rx="1.8" ry="2.3" fill="white"/>
+    <ellipse cx="9.8" cy="7" rx="1.8" ry="2.3" fill="white"/>
+    <ellipse cx="14.2" cy="7" rx="1.8" ry="2.3" fill="white"/>
+    <ellipse cx="17.2" cy="10.8" rx="1.8" ry="2.3" fill="white"/>
+  </svg>
+);
+
+export const PointIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <circle cx="12" cy="12" r="10" fill="#0EA5E9" stroke="#0369A1" strokeWidth="2"/>
+    <path d="M12 7V17M7 12H17" stroke="white" strokeWidth="2.5" strokeLinecap="round"/>
+  </svg>
+);
+
+export const FireIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M13.5 3.14001C13.5 3.14001 16.64 5.59001 15.63 9.30001C17.95 10.24 19.05 12.99 18.22 15.36C17.26 18.13 14.26 19.61 11.49 18.65C10.74 18.39 10.09 17.96 9.56001 17.42C9.03001 17.98 8.30001 18.34 7.49001 18.34C5.83001 18.34 4.49001 17 4.49001 15.34C4.49001 14.23 5.09001 13.24 6.00001 12.71C5.85001 12.03 5.98001 11.29 6.46001 10.73C7.76001 9.21001 10.05 9.03001 11.57 10.33C11.81 10.54 12.01 10.78 12.17 11.04C11.65 7.17001 13.5 3.14001 13.5 3.14001Z" fill="#F97316"/>
+        <path d="M12.5 6C12.5 6 13.5 8 12.5 10C14 11 15 13 14 15C13.5 16 12 16.5 11 16C11.5 14.5 10.5 13.5 10 13.5C10.5 11.5 12.5 6 12.5 6Z" fill="#FDBA74"/>
+    </svg>
+);
+
+export const ResetIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M17.65 6.35C16.2 4.9 14.21 4 12 4C7.58 4 4.01 7.58 4.01 12C4.01 16.42 7.58 20 12 20C15.73 20 18.84 17.45 19.73 14H17.65C16.83 16.33 14.61 18 12 18C8.69 18 6 15.31 6 12C6 8.69 8.69 6 12 6C13.66 6 15.14 6.69 16.22 7.78L13 11H20V4L17.65 6.35Z" fill="currentColor"/>
+    </svg>
+);
+
+export const SoundOnIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M3 9V15H7L12 20V4L7 9H3Z" fill="currentColor"/>
+        <path d="M16.5 12C16.5 10.23 15.48 8.71 14 7.97V16.02C15.48 15.29 16.5 13.77 16.5 12Z" fill="currentColor"/>
+        <path d="M14 3.23V5.29C16.89 6.15 19 8.83 19 12C19 15.17 16.89 17.85 14 18.71V20.77C18.01 19.86 21 16.28 21 12C21 7.72 18.01 4.14 14 3.23Z" fill="currentColor"/>
+    </svg>
+);
+
+export const SoundOffIcon: React.FC<{ className?: string }> = ({ className }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M3 9V15H7L12 20V4L7 9H3Z" fill="currentColor"/>
+        <path d="M15 9L21 15M21 9L15 15" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+    </svg>
+);
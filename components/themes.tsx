@@ -0,0 +1,136 @@
+import React from 'react';
+import { ThemeId } from '../types';
+import { THEME_CURRENCY_NAMES } from '../services/themes';
+import { PawIcon, PointIcon, RobuxIcon, StarIcon } from './icons';
+import robuxBackgroundUrl from '../assets/background.svg';
+import spaceBackgroundUrl from '../assets/background-space.svg';
+import animalsBackgroundUrl from '../assets/background-animals.svg';
+import warriorUrl from '../assets/characters/warrior.svg';
+import builderUrl from '../assets/characters/builder.svg';
+import astronautUrl from '../assets/characters/astronaut.svg';
+import alienUrl from '../assets/characters/alien.svg';
+import catUrl from '../assets/characters/cat.svg';
+import dogUrl from '../assets/characters/dog.svg';
+
+// ============================================================================
+// THEMES (the artwork and colors behind each ThemeId)
+// ============================================================================
+export interface Theme {
+  id: ThemeId;
+  currency: {
+    Icon: React.FC<{ className?: string }>;
+    name: string;
+  };
+  // A CSS background-image for the whole page
+  background: string;
+  // Shown either side of the reward pile on the intro; may be empty
+  characters: string[];
+  palette: {
+    // Outlines and hard drop shadows on buttons and cards
+    outline: string;
+    shadow: string;
+    // Answer buttons before they are answered
+    option: string;
+    optionHover: string;
+    // The goal on the intro and the frame around it
+    accent: string;
+    frame: string;
+    victoryCard: string;
+  };
+  celebration: {
+    confettiColors: string[];
+    fireworkGlow: string;
+    // Emoji that fall instead of plain confetti, if any
+    shapes: string[];
+  };
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  robux: {
+    id: 'robux',
+    currency: { Icon: RobuxIcon, name: THEME_CURRENCY_NAMES.robux },
+    background: `url('${robuxBackgroundUrl}')`,
+    characters: [warriorUrl, builderUrl],
+    palette: {
+      outline: '#000000',
+      shadow: '#000000',
+      option: 'bg-blue-600',
+      optionHover: 'hover:bg-blue-700',
+      accent: 'text-yellow-400',
+      frame: 'border-yellow-500',
+      victoryCard: 'from-yellow-300 to-amber-500 border-yellow-500',
+    },
+    celebration: {
+      confettiColors: ['#fbbd23', '#ef4444', '#22c55e', '#3b82f6'],
+      fireworkGlow: '#facc15',
+      shapes: [],
+    },
+  },
+  space: {
+    id: 'space',
+    currency: { Icon: StarIcon, name: THEME_CURRENCY_NAMES.space },
+    background: `url('${spaceBackgroundUrl}')`,
+    characters: [astronautUrl, alienUrl],
+    palette: {
+      outline: '#000000',
+      shadow: '#1e1b4b',
+      option: 'bg-indigo-600',
+      optionHover: 'hover:bg-indigo-700',
+      accent: 'text-sky-300',
+      frame: 'border-sky-400',
+      victoryCard: 'from-indigo-300 to-violet-500 border-violet-600',
+    },
+    celebration: {
+      confettiColors: ['#fde047', '#a78bfa', '#38bdf8', '#f9fafb'],
+      fireworkGlow: '#38bdf8',
+      shapes: ['⭐', '🌟', '🪐'],
+    },
+  },
+  animals: {
+    id: 'animals',
+    currency: { Icon: PawIcon, name: THEME_CURRENCY_NAMES.animals },
+    background: `url('${animalsBackgroundUrl}')`,
+    characters: [catUrl, dogUrl],
+    palette: {
+      outline: '#3f2a14',
+      shadow: '#3f2a14',
+      option: 'bg-emerald-600',
+      optionHover: 'hover:bg-emerald-700',
+      accent: 'text-orange-300',
+      frame: 'border-orange-400',
+      victoryCard: 'from-lime-200 to-emerald-400 border-emerald-600',
+    },
+    celebration: {
+      confettiColors: ['#fb923c', '#facc15', '#84cc16', '#f472b6'],
+      fireworkGlow: '#fb923c',
+      shapes: ['🐾', '🦴', '🌼'],
+    },
+  },
+  // No characters or branding, softer shadows
+  plain: {
+    id: 'plain',
+    currency: { Icon: PointIcon, name: THEME_CURRENCY_NAMES.plain },
+    background: 'linear-gradient(160deg, #334155 0%, #1e293b 60%, #0f172a 100%)',
+    characters: [],
+    palette: {
+      outline: '#0f172a',
+      shadow: '#00000055',
+      option: 'bg-sky-700',
+      optionHover: 'hover:bg-sky-800',
+      accent: 'text-sky-300',
+      frame: 'border-slate-500',
+      victoryCard: 'from-slate-100 to-sky-200 border-sky-600',
+    },
+    celebration: {
+      confettiColors: ['#0ea5e9', '#38bdf8', '#e2e8f0'],
+      fireworkGlow: '#38bdf8',
+      shapes: [],
+    },
+  },
+};
+
+// The outline and hard shadow every chunky button and card uses
+export const getFrameStyle = (theme: Theme, borderWidth: number, shadowOffset: number): React.CSSProperties => ({
+  border: `${borderWidth}px solid ${theme.palette.outline}`,
+  boxShadow: `${shadowOffset}px ${shadowOffset}px 0px ${theme.palette.shadow}`,
+});
@@ -0,0 +1,366 @@
+import { Difficulty, ThemeId } from '../types';
+import { LocaleCatalog } from '../services/i18n';
+
+// Who the story problems are about, and what they collect, in each theme
+const STORY_WORDS: Record<ThemeId, { players: string; player: string; treasure: string }> = {
+  robux: { players: 'Roblox players', player: 'player', treasure: 'coins' },
+  space: { players: 'astronauts', player: 'astronaut', treasure: 'stars' },
+  animals: { players: 'puppies', player: 'puppy', treasure: 'bones' },
+  plain: { players: 'children', player: 'child', treasure: 'stickers' },
+};
+
+const en: LocaleCatalog = {
+  id: 'English',
+  name: 'English',
+  dir: 'ltr',
+  speech: {
+    lang: 'en-US',
+    voiceLang: 'en',
+    // Priority: Google Female -> OS Female -> First available
+    preferredVoices: ['Google US English', 'Samantha', 'Zira', 'Eva'],
+    // Generic Windows voices (often robotic male "David") sound better rounder and softer
+    fallbackTuning: { pitch: 0.9, rate: 0.9, voices: ['david', 'desktop'] },
+  },
+  numbers: {
+    words: {
+      zero: 0,
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+      eleven: 11,
+      twelve: 12,
+      thirteen: 13,
+      fourteen: 14,
+      fifteen: 15,
+      sixteen: 16,
+      seventeen: 17,
+      eighteen: 18,
+      nineteen: 19,
+      twenty: 20,
+      thirty: 30,
+      forty: 40,
+      fifty: 50,
+      sixty: 60,
+      seventy: 70,
+      eighty: 80,
+      ninety: 90,
+    },
+    multipliers: { hundred: 100 },
+    fillers: ['and', 'a'],
+  },
+  clips: {
+    folder: 'en',
+    words: { times: 'times', divided: 'divided', by: 'by', what: 'what', equals: 'equals' },
+  },
+  messages: {
+    common: {
+      back: 'Back',
+      cancel: 'Cancel',
+      save: 'Save',
+      saved: 'Saved!',
+      close: 'Close',
+      start: 'Start',
+      playAgain: 'Play Again',
+      newRecord: (label, value) => `New record! ${label}: ${value}`,
+    },
+    app: {
+      switchPlayer: 'Switch player',
+      startOver: 'Start over',
+      mute: 'Mute sounds',
+      unmute: 'Turn sounds on',
+      updateAvailable: 'A new version is ready.',
+      reload: 'Reload',
+    },
+    profiles: {
+      title: "Who's Playing?",
+      newPlayer: 'New Player',
+      editPlayer: 'Edit Player',
+      namePlaceholder: 'Name',
+      rename: (name) => `Rename ${name}`,
+      remove: (name) => `Delete ${name}`,
+      confirmDelete: (name) => `Delete ${name}? Their Robux and history will be lost.`,
+      parents: '🔒 Parents',
+    },
+    setup: {
+      title: 'Choose Your Challenge!',
+      language: 'Language',
+      mode: 'Mode',
+      difficulties: {
+        [Difficulty.Easy]: 'Super Easy',
+        [Difficulty.Moderate]: 'Easy',
+        [Difficulty.Hard]: 'Normal',
+        [Difficulty.Tables]: 'Pick Tables',
+      },
+      modes: {
+        classic: { label: 'Classic', description: 'Reach the target', bestLabel: 'Fastest win' },
+        blitz: { label: '60-Second Blitz', description: 'Most correct answers in 60 seconds', bestLabel: 'Most correct' },
+        beat_the_clock: { label: 'Beat the Clock', description: 'Answer fast for bonus points', bestLabel: 'Fastest win' },
+      },
+    },
+    tables: {
+      title: 'Which tables?',
+      upTo: 'Up to',
+      all: (max) => `${max} (all)`,
+    },
+    game: {
+      introWin: 'Win',
+      introWinEnd: '!',
+      intro: {
+        classic: 'Answer correctly to collect them all.',
+        blitz: 'Answer as many as you can in 60 seconds!',
+        beat_the_clock: 'Answer fast to earn bonus points!',
+      },
+      startGame: 'START GAME',
+      loading: 'Loading...',
+      streak: (count) => `Streak: ${count}`,
+      speedBonus: (points) => `+${points} bonus!`,
+      submit: 'Submit',
+      correctAnswer: 'Correct answer:',
+      voiceOn: 'Answer out loud',
+      voiceOff: 'Stop answering out loud',
+      listening: 'Listening...',
+      listenAgain: 'Say it again',
+      storyOn: 'Story problems',
+      storyOff: 'Plain questions',
+      storyLoading: 'Writing a story...',
+      notANumber: (heard) => `I heard "${heard}". Try again!`,
+      compliments: ['Good!', 'Excellent!', 'Great job!', 'You are doing well!', 'You are amazing!'],
+      highScoreCompliments: ['You are almost there!', 'Keep up the good work!', 'You are going to win soon!', 'You are so smart!'],
+    },
+    questions: {
+      multiplication: (num1, num2) => `${num1} times ${num2}`,
+      division: (product, num2) => `${product} divided by ${num2}`,
+      missingFirst: (num2, product) => `what times ${num2} equals ${product}`,
+      missingSecond: (num1, product) => `${num1} times what equals ${product}`,
+    },
+    wordProblems: {
+      multiplication: [
+        (num1, num2, _product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `Each of ${num1} ${players} collects ${num2} ${treasure}. How many ${treasure} do they collect altogether?`;
+        },
+        (num1, num2) => `A builder lays ${num1} rows of blocks with ${num2} blocks in each row. How many blocks is that?`,
+      ],
+      division: [
+        (_num1, num2, product, theme) => {
+          const { players, player, treasure } = STORY_WORDS[theme];
+          return `${product} ${treasure} are shared equally between ${num2} ${players}. How many ${treasure} does each ${player} get?`;
+        },
+        (_num1, num2, product) => `${product} blocks are stacked into towers of ${num2}. How many towers can be built?`,
+      ],
+      missing_second: [
+        (num1, _num2, product, theme) => {
+          const { players, player, treasure } = STORY_WORDS[theme];
+          return `${num1} ${players} each find the same number of ${treasure}. Together they find ${product}. How many ${treasure} did each ${player} find?`;
+        },
+        (num1, _num2, product) => `A castle has ${num1} floors with the same number of windows on each, ${product} windows in all. How many windows are on each floor?`,
+      ],
+      missing_first: [
+        (_num1, num2, product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `Some ${players} each collect ${num2} ${treasure}. Together they have ${product} ${treasure}. How many ${players} are there?`;
+        },
+        (_num1, num2, product) => `A builder uses ${num2} blocks for every tower and ${product} blocks in total. How many towers did they build?`,
+      ],
+    },
+    victory: {
+      title: 'Congratulations!',
+      won: (amount, reward) => `You won ${amount} ${reward}! Go to your parents to collect the gift!`,
+    },
+    timeUp: {
+      title: "Time's Up!",
+      correct: (count) => `You got ${count} right!`,
+    },
+    parents: {
+      pinTitle: 'Parents Only',
+      choosePin: 'Choose a 4-digit PIN for the parent area.',
+      enterPin: 'Enter your parent PIN.',
+      pinPlaceholder: 'PIN',
+      repeatPin: 'Repeat PIN',
+      pinLength: 'The PIN must be 4 digits.',
+      pinMismatch: 'The PINs do not match.',
+      wrongPin: 'Wrong PIN.',
+      unlock: 'Unlock',
+      title: 'Parent Dashboard',
+      noPlayers: 'No players yet.',
+      timesTables: 'Times Tables',
+      sessions: 'Sessions',
+      commonMistakes: 'Common Mistakes',
+      questionTypes: 'Question Types',
+      rewards: 'Rewards',
+      accuracy: 'Accuracy',
+      speed: 'Speed',
+      accuracyLegend: 'Red = often wrong, green = always right.',
+      speedLegend: 'Red = slow, green = fast.',
+      unpracticedLegend: 'Grey = not practiced.',
+      factStats: (fact, correct, attempts, average) => `${fact}: ${correct}/${attempts} correct, ${average} average`,
+      factUnpracticed: (fact) => `${fact}: not practiced yet`,
+      noGames: 'No games played yet.',
+      sessionOption: (date, answers) => `${date} (${answers} answers)`,
+      sessionSummary: (correct, total, typed, finalScore) => `${correct}/${total} correct · ${typed} typed · final score ${finalScore}`,
+      timedOut: 'timed out',
+      typed: 'typed',
+      tapped: 'tapped',
+      spoken: 'spoken',
+      noMistakes: 'No mistakes recorded yet.',
+      misconceptions: {
+        neighbour_fact: 'Neighbouring fact',
+        off_by_one_table: 'Wrong table',
+        added: 'Added instead of multiplied',
+        swapped_digits: 'Swapped digits',
+        previous_answer: 'Previous answer',
+        other_factor: 'Repeated the given number',
+        near_miss: 'Near miss',
+        other: 'Other',
+      },
+      voice: 'Voice',
+      accessibility: 'Accessibility',
+      theme: 'Look',
+      themes: {
+        robux: 'Robux',
+        space: 'Space',
+        animals: 'Animals',
+        plain: 'Plain',
+      },
+      sound: 'Sounds',
+      transfer: 'Export & import',
+    },
+    rewards: {
+      targetAmount: 'Target amount',
+      rewardName: 'Reward name',
+      pointsPerCorrect: 'Points per correct answer',
+      typedFrom: 'Typed answers from score',
+      penaltyTitle: 'Penalty for a wrong answer',
+      fromScore: 'From score',
+      lose: 'Lose',
+      removeTier: 'Remove penalty tier',
+      addTier: '+ Add tier',
+      defaults: 'Defaults',
+    },
+    versus: {
+      open: '⚔️ Versus',
+      title: 'Versus',
+      styles: {
+        split_screen: { label: 'Split Screen', description: 'Same question, fastest right answer scores' },
+        hot_seat: { label: 'Hot Seat', description: 'Take turns on one screen' },
+      },
+      players: 'Pick two players',
+      difficulty: 'Difficulty',
+      firstTo: (target) => `First to ${target} wins!`,
+      turn: (name) => `${name}'s turn`,
+      wins: (name) => `${name} wins!`,
+    },
+    achievements: {
+      open: '🏅 Badges',
+      title: 'Your Badges',
+      unlocked: 'Badge unlocked!',
+      locked: 'Not yet',
+      unlockedOn: (date) => `Earned ${date}`,
+      items: {
+        first_win: { name: 'Champion', description: 'Win a game' },
+        streak_10: { name: 'On Fire', description: 'Get 10 answers right in a row' },
+        typed_20: { name: 'Fast Fingers', description: 'Type 20 right answers in a row' },
+        comeback: { name: 'Comeback', description: 'Get one right after 3 wrong answers' },
+        mastered_7s: { name: 'Master of 7s', description: 'Master the whole 7 times table' },
+        first_russian_game: { name: 'Привет!', description: 'Finish a game in Russian' },
+      },
+    },
+    voice: {
+      muted: "Don't read anything aloud",
+      voice: 'Voice',
+      automatic: 'Automatic',
+      noVoices: 'No voices installed for this language.',
+      rate: 'Speed',
+      pitch: 'Pitch',
+      volume: 'Volume',
+      preview: '▶ Preview',
+      defaults: 'Defaults',
+    },
+    sound: {
+      muted: 'No sound effects or music',
+      effectsVolume: 'Effects volume',
+      music: 'Background music during games',
+      musicVolume: 'Music volume',
+      preview: '▶ Try it',
+    },
+    transfer: {
+      exportAnswers: '⬇ Answers (CSV)',
+      exportFacts: '⬇ Facts (CSV)',
+      exportBackup: '⬇ Backup (JSON)',
+      importBackup: '⬆ Import backup',
+      importHint: 'Load a JSON backup from another device to bring a player over.',
+      imported: (name) => `${name} was imported.`,
+      conflict: (name) => `${name} is already on this device. Merge the progress, or keep both?`,
+      noMatch: (name) => `${name} isn't on this device yet. Add them as a new player, or merge into someone who is?`,
+      mergeInto: 'Merge into',
+      merge: 'Merge',
+      keepBoth: 'Keep both',
+      addNew: 'Add as new player',
+      readFailed: "That file couldn't be read.",
+      errors: {
+        invalid_json: "That file isn't a backup.",
+        wrong_format: "That file isn't a backup from this game.",
+        newer_version: 'That backup is from a newer version of the game. Update this device first.',
+        invalid_profile: 'That backup is damaged.',
+      },
+    },
+    homework: {
+      open: '📝 Homework',
+      title: 'Homework',
+      pickPlayer: (title, questions) => `Homework${title ? `: ${title}` : ''} (${questions} questions). Who is doing it?`,
+      intro: (questions) => `Answer ${questions} questions, then give your teacher the code.`,
+      progress: (question, total) => `Question ${question} of ${total}`,
+      doneTitle: 'Homework done!',
+      score: (correct, total) => `${correct} of ${total} right`,
+      codeHint: 'Give this code to your teacher.',
+      copy: 'Copy',
+      copied: 'Copied!',
+      done: 'Done',
+      create: 'Create an assignment',
+      assignmentTitle: 'Title (optional)',
+      tables: 'Tables',
+      questionCount: 'Questions',
+      questionTypes: 'Question types',
+      inputMode: 'Answers',
+      inputModes: {
+        adaptive: 'Let the game decide',
+        choice: 'Multiple choice',
+        typed: 'Typed only',
+      },
+      createLink: 'Create link',
+      linkHint: 'Share the link or show the QR code. Students open it and pick their player.',
+      tooLongForQr: 'This link is too long for a QR code, so share the link instead.',
+      verify: 'Check a result code',
+      codePlaceholder: 'Paste a result code',
+      check: 'Check',
+      result: (name, correct, total) => `${name}: ${correct} of ${total} right`,
+      resultDetails: (assignmentId, minutes, date) => `Assignment ${assignmentId} · ${minutes} min · ${date}`,
+      errors: {
+        invalid_code: "That isn't a result code.",
+        tampered: 'This code has been changed. Ask for the original.',
+      },
+    },
+    accessibility: {
+      correct: 'Correct!',
+      incorrect: (answer) => `Not quite. The answer is ${answer}.`,
+      score: (score, reward) => `You have ${score} ${reward}.`,
+      keyboardHint: 'Keys 1-4 or arrows + Enter',
+      colorBlind: 'Show ✓ and ✗ with color-blind friendly colors',
+      motion: 'Animations',
+      motions: {
+        system: 'Follow device',
+        reduced: 'Reduced',
+        full: 'Full',
+      },
+    },
+  },
+};
+
+export default en;
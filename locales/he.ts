@@ -0,0 +1,389 @@
+import { Difficulty, ThemeId } from '../types';
+import { LocaleCatalog } from '../services/i18n';
+
+// Who the story problems are about, and what they collect, in each theme.
+// The characters are all masculine plural, so the verbs in the stories agree.
+const STORY_WORDS: Record<ThemeId, { players: string; player: string; treasure: string }> = {
+  robux: { players: 'שחקני רובלוקס', player: 'שחקן', treasure: 'מטבעות' },
+  space: { players: 'אסטרונאוטים', player: 'אסטרונאוט', treasure: 'כוכבים' },
+  animals: { players: 'גורים', player: 'גור', treasure: 'עצמות' },
+  plain: { players: 'ילדים', player: 'ילד', treasure: 'מדבקות' },
+};
+
+const he: LocaleCatalog = {
+  id: 'Hebrew',
+  name: 'עברית',
+  dir: 'rtl',
+  speech: {
+    lang: 'he-IL',
+    voiceLang: 'he',
+    // High quality female voices (Google, Microsoft Hoda, Apple) need no tuning
+    preferredVoices: ['Google', 'Hoda', 'Carmit', 'Sivan'],
+    // Any other Hebrew voice is likely a robotic system voice: make it rounder and slower
+    fallbackTuning: { pitch: 0.9, rate: 0.85 },
+  },
+  numbers: {
+    words: {
+      'אפס': 0,
+      'אחת': 1,
+      'אחד': 1,
+      'שתיים': 2,
+      'שתים': 2,
+      'שניים': 2,
+      'שלוש': 3,
+      'שלושה': 3,
+      'ארבע': 4,
+      'ארבעה': 4,
+      'חמש': 5,
+      'חמישה': 5,
+      'שש': 6,
+      'שישה': 6,
+      'שבע': 7,
+      'שבעה': 7,
+      'שמונה': 8,
+      'תשע': 9,
+      'תשעה': 9,
+      'עשר': 10,
+      'עשרה': 10,
+      'אחת עשרה': 11,
+      'אחד עשר': 11,
+      'שתים עשרה': 12,
+      'שנים עשר': 12,
+      'שלוש עשרה': 13,
+      'שלושה עשר': 13,
+      'ארבע עשרה': 14,
+      'ארבעה עשר': 14,
+      'חמש עשרה': 15,
+      'חמישה עשר': 15,
+      'שש עשרה': 16,
+      'שישה עשר': 16,
+      'שבע עשרה': 17,
+      'שבעה עשר': 17,
+      'שמונה עשרה': 18,
+      'שמונה עשר': 18,
+      'תשע עשרה': 19,
+      'תשעה עשר': 19,
+      'עשרים': 20,
+      'שלושים': 30,
+      'ארבעים': 40,
+      'חמישים': 50,
+      'שישים': 60,
+      'שבעים': 70,
+      'שמונים': 80,
+      'תשעים': 90,
+      'מאה': 100,
+      'מאתיים': 200,
+    },
+    // "חמישים ושש": the "and" is glued to the last word
+    prefixes: ['ו'],
+  },
+  clips: {
+    folder: 'he',
+    words: { 'כפול': 'times', 'חלקי': 'divided_by', 'כמה': 'what', 'שווה': 'equals' },
+    numberJoiner: 'and',
+  },
+  messages: {
+    common: {
+      back: 'חזרה',
+      cancel: 'ביטול',
+      save: 'שמירה',
+      saved: 'נשמר!',
+      close: 'סגירה',
+      start: 'התחלה',
+      playAgain: 'משחק חדש',
+      newRecord: (label, value) => `שיא חדש! ${label}: ${value}`,
+    },
+    app: {
+      switchPlayer: 'החלפת שחקן',
+      startOver: 'להתחיל מחדש',
+      mute: 'השתקת צלילים',
+      unmute: 'הפעלת צלילים',
+      updateAvailable: 'גרסה חדשה מוכנה.',
+      reload: 'לטעון מחדש',
+    },
+    profiles: {
+      title: 'מי משחק?',
+      newPlayer: 'שחקן חדש',
+      editPlayer: 'עריכת שחקן',
+      namePlaceholder: 'שם',
+      rename: (name) => `שינוי השם של ${name}`,
+      remove: (name) => `מחיקת ${name}`,
+      confirmDelete: (name) => `למחוק את ${name}? הרובקס וההיסטוריה יימחקו.`,
+      parents: '🔒 הורים',
+    },
+    setup: {
+      title: 'בחרו את האתגר!',
+      language: 'שפה',
+      mode: 'מצב משחק',
+      difficulties: {
+        [Difficulty.Easy]: 'קל מאוד',
+        [Difficulty.Moderate]: 'קל',
+        [Difficulty.Hard]: 'רגיל',
+        [Difficulty.Tables]: 'בחירת לוחות',
+      },
+      modes: {
+        classic: { label: 'קלאסי', description: 'להגיע ליעד', bestLabel: 'הניצחון המהיר' },
+        blitz: { label: 'בליץ 60 שניות', description: 'כמה שיותר תשובות נכונות ב-60 שניות', bestLabel: 'הכי הרבה נכונות' },
+        beat_the_clock: { label: 'נגד השעון', description: 'עונים מהר ומקבלים בונוס', bestLabel: 'הניצחון המהיר' },
+      },
+    },
+    tables: {
+      title: 'איזה לוחות?',
+      upTo: 'עד',
+      all: (max) => `${max} (הכול)`,
+    },
+    game: {
+      introWin: 'זכו ב-',
+      introWinEnd: '!',
+      intro: {
+        classic: 'ענו נכון כדי לאסוף את כולם.',
+        blitz: 'ענו על כמה שיותר שאלות ב-60 שניות!',
+        beat_the_clock: 'ענו מהר כדי לקבל נקודות בונוס!',
+      },
+      startGame: 'מתחילים!',
+      loading: 'טוען...',
+      streak: (count) => `רצף: ${count}`,
+      speedBonus: (points) => `+${points} בונוס!`,
+      submit: 'שליחה',
+      correctAnswer: 'התשובה הנכונה:',
+      voiceOn: 'לענות בקול',
+      voiceOff: 'להפסיק לענות בקול',
+      listening: 'מקשיב...',
+      listenAgain: 'להגיד שוב',
+      storyOn: 'שאלות סיפור',
+      storyOff: 'שאלות רגילות',
+      storyLoading: 'כותבים סיפור...',
+      notANumber: (heard) => `שמעתי "${heard}". נסה שוב!`,
+      compliments: ['טוב!', 'מצוין!', 'כל הכבוד!', 'הולך לכם מצוין!', 'אתם מדהימים!'],
+      highScoreCompliments: ['כמעט שם!', 'תמשיכו ככה!', 'עוד מעט מנצחים!', 'איזה חכמים!'],
+    },
+    questions: {
+      multiplication: (num1, num2) => `${num1} כפול ${num2}`,
+      division: (product, num2) => `${product} חלקי ${num2}`,
+      missingFirst: (num2, product) => `כמה כפול ${num2} שווה ${product}`,
+      missingSecond: (num1, product) => `${num1} כפול כמה שווה ${product}`,
+    },
+    wordProblems: {
+      multiplication: [
+        (num1, num2, _product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `כל אחד מ-${num1} ${players} אוסף ${num2} ${treasure}. כמה ${treasure} הם אוספים ביחד?`;
+        },
+        (num1, num2) => `בונה מניח ${num1} שורות של קוביות, ובכל שורה ${num2} קוביות. כמה קוביות יש בסך הכול?`,
+      ],
+      division: [
+        (_num1, num2, product, theme) => {
+          const { players, player, treasure } = STORY_WORDS[theme];
+          return `מחלקים ${product} ${treasure} שווה בשווה בין ${num2} ${players}. כמה ${treasure} מקבל כל ${player}?`;
+        },
+        (_num1, num2, product) => `${product} קוביות נערמות למגדלים של ${num2} קוביות. כמה מגדלים אפשר לבנות?`,
+      ],
+      missing_second: [
+        (num1, _num2, product, theme) => {
+          const { players, player, treasure } = STORY_WORDS[theme];
+          return `${num1} ${players} מוצאים כל אחד אותו מספר של ${treasure}. ביחד הם מצאו ${product}. כמה ${treasure} מצא כל ${player}?`;
+        },
+        (num1, _num2, product) => `בטירה יש ${num1} קומות ובכל קומה אותו מספר חלונות, ${product} חלונות בסך הכול. כמה חלונות יש בכל קומה?`,
+      ],
+      missing_first: [
+        (_num1, num2, product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `כמה ${players} אוספים כל אחד ${num2} ${treasure}. ביחד יש להם ${product} ${treasure}. כמה ${players} יש?`;
+        },
+        (_num1, num2, product) => `בונה משתמש ב-${num2} קוביות לכל מגדל וב-${product} קוביות בסך הכול. כמה מגדלים הוא בנה?`,
+      ],
+    },
+    victory: {
+      title: 'כל הכבוד!',
+      won: (amount, reward) => `זכיתם ב-${amount} ${reward}! לכו להורים לקבל את המתנה!`,
+    },
+    timeUp: {
+      title: 'נגמר הזמן!',
+      correct: (count) => `תשובות נכונות: ${count}`,
+    },
+    parents: {
+      pinTitle: 'להורים בלבד',
+      choosePin: 'בחרו קוד בן 4 ספרות לאזור ההורים.',
+      enterPin: 'הקישו את קוד ההורים.',
+      pinPlaceholder: 'קוד',
+      repeatPin: 'הקוד שוב',
+      pinLength: 'הקוד חייב להיות בן 4 ספרות.',
+      pinMismatch: 'הקודים לא תואמים.',
+      wrongPin: 'קוד שגוי.',
+      unlock: 'כניסה',
+      title: 'לוח הורים',
+      noPlayers: 'אין עדיין שחקנים.',
+      timesTables: 'לוח הכפל',
+      sessions: 'משחקים',
+      commonMistakes: 'טעויות נפוצות',
+      questionTypes: 'סוגי שאלות',
+      rewards: 'פרסים',
+      accuracy: 'דיוק',
+      speed: 'מהירות',
+      accuracyLegend: 'אדום = טועה הרבה, ירוק = תמיד נכון.',
+      speedLegend: 'אדום = איטי, ירוק = מהיר.',
+      unpracticedLegend: 'אפור = לא תורגל.',
+      factStats: (fact, correct, attempts, average) => `${fact}: ${correct}/${attempts} נכונות, ממוצע ${average}`,
+      factUnpracticed: (fact) => `${fact}: עוד לא תורגל`,
+      noGames: 'עוד לא שוחקו משחקים.',
+      sessionOption: (date, answers) => `${date} (${answers} תשובות)`,
+      sessionSummary: (correct, total, typed, finalScore) => `${correct}/${total} נכונות · ${typed} הוקלדו · ניקוד סופי ${finalScore}`,
+      timedOut: 'נגמר הזמן',
+      typed: 'הוקלד',
+      tapped: 'נבחר',
+      spoken: 'נאמר',
+      noMistakes: 'עוד לא נרשמו טעויות.',
+      misconceptions: {
+        neighbour_fact: 'תרגיל שכן',
+        off_by_one_table: 'לוח לא נכון',
+        added: 'חיבור במקום כפל',
+        swapped_digits: 'ספרות הפוכות',
+        previous_answer: 'התשובה הקודמת',
+        other_factor: 'חזרה על המספר הנתון',
+        near_miss: 'כמעט',
+        other: 'אחר',
+      },
+      voice: 'קול',
+      accessibility: 'נגישות',
+      theme: 'מראה',
+      themes: {
+        robux: 'רובקס',
+        space: 'חלל',
+        animals: 'חיות',
+        plain: 'פשוט',
+      },
+      sound: 'צלילים',
+      transfer: 'ייצוא וייבוא',
+    },
+    rewards: {
+      targetAmount: 'סכום היעד',
+      rewardName: 'שם הפרס',
+      pointsPerCorrect: 'נקודות לתשובה נכונה',
+      typedFrom: 'הקלדת תשובות מניקוד',
+      penaltyTitle: 'עונש על תשובה שגויה',
+      fromScore: 'מניקוד',
+      lose: 'הפסד',
+      removeTier: 'הסרת שלב עונש',
+      addTier: '+ הוספת שלב',
+      defaults: 'ברירת מחדל',
+    },
+    versus: {
+      open: '⚔️ קרב',
+      title: 'קרב',
+      styles: {
+        split_screen: { label: 'מסך מפוצל', description: 'אותה שאלה, מי שעונה נכון ראשון מקבל נקודה' },
+        hot_seat: { label: 'בתורות', description: 'משחקים בתורות על אותו מסך' },
+      },
+      players: 'בחרו שני שחקנים',
+      difficulty: 'רמת קושי',
+      firstTo: (target) => `הראשון שמגיע ל־${target} מנצח!`,
+      turn: (name) => `התור של ${name}`,
+      wins: (name) => `${name} ניצח!`,
+    },
+    achievements: {
+      open: '🏅 תגים',
+      title: 'התגים שלך',
+      unlocked: 'קיבלת תג!',
+      locked: 'עוד לא',
+      unlockedOn: (date) => `הושג ב־${date}`,
+      items: {
+        first_win: { name: 'אלוף', description: 'לנצח במשחק' },
+        streak_10: { name: 'בוער', description: '10 תשובות נכונות ברצף' },
+        typed_20: { name: 'אצבעות מהירות', description: 'להקליד 20 תשובות נכונות ברצף' },
+        comeback: { name: 'קאמבק', description: 'לענות נכון אחרי 3 טעויות' },
+        mastered_7s: { name: 'אלוף ה־7', description: 'לשלוט בכל לוח הכפל של 7' },
+        first_russian_game: { name: 'Привет!', description: 'לסיים משחק ברוסית' },
+      },
+    },
+    voice: {
+      muted: 'לא להקריא כלום',
+      voice: 'קול',
+      automatic: 'אוטומטי',
+      noVoices: 'אין קולות מותקנים לשפה הזאת.',
+      rate: 'מהירות',
+      pitch: 'גובה',
+      volume: 'עוצמה',
+      preview: '▶ השמעה',
+      defaults: 'ברירת מחדל',
+    },
+    sound: {
+      muted: 'בלי אפקטים קוליים ומוזיקה',
+      effectsVolume: 'עוצמת אפקטים',
+      music: 'מוזיקת רקע במשחק',
+      musicVolume: 'עוצמת מוזיקה',
+      preview: '▶ לנסות',
+    },
+    transfer: {
+      exportAnswers: '⬇ תשובות (CSV)',
+      exportFacts: '⬇ תרגילים (CSV)',
+      exportBackup: '⬇ גיבוי (JSON)',
+      importBackup: '⬆ ייבוא גיבוי',
+      importHint: 'טענו גיבוי JSON ממכשיר אחר כדי להעביר שחקן.',
+      imported: (name) => `${name} יובא.`,
+      conflict: (name) => `${name} כבר נמצא במכשיר הזה. למזג את ההתקדמות או לשמור את שניהם?`,
+      noMatch: (name) => `${name} עדיין לא נמצא במכשיר הזה. להוסיף כשחקן חדש או למזג עם שחקן שכבר כאן?`,
+      mergeInto: 'מיזוג אל',
+      merge: 'מיזוג',
+      keepBoth: 'לשמור את שניהם',
+      addNew: 'הוספה כשחקן חדש',
+      readFailed: 'לא הצלחנו לקרוא את הקובץ.',
+      errors: {
+        invalid_json: 'הקובץ הזה אינו גיבוי.',
+        wrong_format: 'הקובץ הזה אינו גיבוי של המשחק.',
+        newer_version: 'הגיבוי נוצר בגרסה חדשה יותר של המשחק. עדכנו קודם את המכשיר הזה.',
+        invalid_profile: 'הגיבוי פגום.',
+      },
+    },
+    homework: {
+      open: '📝 שיעורי בית',
+      title: 'שיעורי בית',
+      pickPlayer: (title, questions) => `שיעורי בית${title ? `: ${title}` : ''} (${questions} שאלות). מי עושה אותם?`,
+      intro: (questions) => `ענו על ${questions} שאלות ואז תנו למורה את הקוד.`,
+      progress: (question, total) => `שאלה ${question} מתוך ${total}`,
+      doneTitle: 'סיימתם את שיעורי הבית!',
+      score: (correct, total) => `${correct} נכונות מתוך ${total}`,
+      codeHint: 'תנו את הקוד הזה למורה.',
+      copy: 'העתקה',
+      copied: 'הועתק!',
+      done: 'סיום',
+      create: 'יצירת משימה',
+      assignmentTitle: 'כותרת (לא חובה)',
+      tables: 'לוחות',
+      questionCount: 'שאלות',
+      questionTypes: 'סוגי שאלות',
+      inputMode: 'תשובות',
+      inputModes: {
+        adaptive: 'המשחק יחליט',
+        choice: 'בחירה מרובה',
+        typed: 'הקלדה בלבד',
+      },
+      createLink: 'יצירת קישור',
+      linkHint: 'שתפו את הקישור או הציגו את קוד ה־QR. התלמידים פותחים אותו ובוחרים את השחקן שלהם.',
+      tooLongForQr: 'הקישור ארוך מדי לקוד QR, אז שתפו את הקישור עצמו.',
+      verify: 'בדיקת קוד תוצאה',
+      codePlaceholder: 'הדביקו קוד תוצאה',
+      check: 'בדיקה',
+      result: (name, correct, total) => `${name}: ${correct} נכונות מתוך ${total}`,
+      resultDetails: (assignmentId, minutes, date) => `משימה ${assignmentId} · ${minutes} דק׳ · ${date}`,
+      errors: {
+        invalid_code: 'זה לא קוד תוצאה.',
+        tampered: 'הקוד הזה שונה. בקשו את הקוד המקורי.',
+      },
+    },
+    accessibility: {
+      correct: 'נכון!',
+      incorrect: (answer) => `לא בדיוק. התשובה היא ${answer}.`,
+      score: (score, reward) => `יש לך ${score} ${reward}.`,
+      keyboardHint: 'מקשים 1-4 או חיצים + Enter',
+      colorBlind: 'להציג ✓ ו-✗ בצבעים ידידותיים לעיוורי צבעים',
+      motion: 'אנימציות',
+      motions: {
+        system: 'לפי המכשיר',
+        reduced: 'מופחתות',
+        full: 'מלאות',
+      },
+    },
+  },
+};
+
+export default he;
@@ -0,0 +1,7 @@
+import { LocaleCatalog } from '../services/i18n';
+import en from './en';
+import he from './he';
+import ru from './ru';
+
+// Every language the game offers, in picker order. The first is the default.
+export const LOCALES: LocaleCatalog[] = [en, he, ru];
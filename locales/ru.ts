@@ -0,0 +1,367 @@
+import { Difficulty, ThemeId } from '../types';
+import { LocaleCatalog } from '../services/i18n';
+
+// Who the story problems are about, and what they collect, in each theme:
+// genitive plural (after numbers, "из" and "сколько") and instrumental plural (after "между")
+const STORY_WORDS: Record<ThemeId, { players: string; withPlayers: string; treasure: string }> = {
+  robux: { players: 'игроков Roblox', withPlayers: 'игроками Roblox', treasure: 'монет' },
+  space: { players: 'космонавтов', withPlayers: 'космонавтами', treasure: 'звёзд' },
+  animals: { players: 'щенков', withPlayers: 'щенками', treasure: 'косточек' },
+  plain: { players: 'детей', withPlayers: 'детьми', treasure: 'наклеек' },
+};
+
+const ru: LocaleCatalog = {
+  id: 'Russian',
+  name: 'Русский',
+  dir: 'ltr',
+  speech: {
+    lang: 'ru-RU',
+    voiceLang: 'ru',
+    preferredVoices: ['Google'],
+  },
+  numbers: {
+    words: {
+      'ноль': 0,
+      'один': 1,
+      'одна': 1,
+      'два': 2,
+      'две': 2,
+      'три': 3,
+      'четыре': 4,
+      'пять': 5,
+      'шесть': 6,
+      'семь': 7,
+      'восемь': 8,
+      'девять': 9,
+      'десять': 10,
+      'одиннадцать': 11,
+      'двенадцать': 12,
+      'тринадцать': 13,
+      'четырнадцать': 14,
+      'пятнадцать': 15,
+      'шестнадцать': 16,
+      'семнадцать': 17,
+      'восемнадцать': 18,
+      'девятнадцать': 19,
+      'двадцать': 20,
+      'тридцать': 30,
+      'сорок': 40,
+      'пятьдесят': 50,
+      'шестьдесят': 60,
+      'семьдесят': 70,
+      'восемьдесят': 80,
+      'девяносто': 90,
+      'сто': 100,
+      'двести': 200,
+    },
+    fillers: ['и'],
+  },
+  clips: {
+    folder: 'ru',
+    words: { 'умножить': 'multiply', 'разделить': 'divide', 'на': 'by', 'сколько': 'what', 'будет': 'equals' },
+  },
+  messages: {
+    common: {
+      back: 'Назад',
+      cancel: 'Отмена',
+      save: 'Сохранить',
+      saved: 'Сохранено!',
+      close: 'Закрыть',
+      start: 'Начать',
+      playAgain: 'Играть снова',
+      newRecord: (label, value) => `Новый рекорд! ${label}: ${value}`,
+    },
+    app: {
+      switchPlayer: 'Сменить игрока',
+      startOver: 'Начать заново',
+      mute: 'Выключить звуки',
+      unmute: 'Включить звуки',
+      updateAvailable: 'Доступна новая версия.',
+      reload: 'Обновить',
+    },
+    profiles: {
+      title: 'Кто играет?',
+      newPlayer: 'Новый игрок',
+      editPlayer: 'Изменить игрока',
+      namePlaceholder: 'Имя',
+      rename: (name) => `Переименовать ${name}`,
+      remove: (name) => `Удалить ${name}`,
+      confirmDelete: (name) => `Удалить игрока ${name}? Его Robux и история будут потеряны.`,
+      parents: '🔒 Родителям',
+    },
+    setup: {
+      title: 'Выбери задание!',
+      language: 'Язык',
+      mode: 'Режим',
+      difficulties: {
+        [Difficulty.Easy]: 'Супер легко',
+        [Difficulty.Moderate]: 'Легко',
+        [Difficulty.Hard]: 'Нормально',
+        [Difficulty.Tables]: 'Выбрать таблицы',
+      },
+      modes: {
+        classic: { label: 'Классика', description: 'Дойди до цели', bestLabel: 'Быстрейшая победа' },
+        blitz: { label: 'Блиц 60 секунд', description: 'Больше всего верных ответов за 60 секунд', bestLabel: 'Больше всего верных' },
+        beat_the_clock: { label: 'На время', description: 'Отвечай быстро и получай бонус', bestLabel: 'Быстрейшая победа' },
+      },
+    },
+    tables: {
+      title: 'Какие таблицы?',
+      upTo: 'До',
+      all: (max) => `${max} (все)`,
+    },
+    game: {
+      introWin: 'Выиграй',
+      introWinEnd: '!',
+      intro: {
+        classic: 'Отвечай правильно, чтобы собрать их все.',
+        blitz: 'Ответь на как можно больше вопросов за 60 секунд!',
+        beat_the_clock: 'Отвечай быстро, чтобы получить бонусные очки!',
+      },
+      startGame: 'НАЧАТЬ ИГРУ',
+      loading: 'Загрузка...',
+      streak: (count) => `Серия: ${count}`,
+      speedBonus: (points) => `+${points} бонус!`,
+      submit: 'Ответить',
+      correctAnswer: 'Правильный ответ:',
+      voiceOn: 'Отвечать голосом',
+      voiceOff: 'Не отвечать голосом',
+      listening: 'Слушаю...',
+      listenAgain: 'Сказать ещё раз',
+      storyOn: 'Задачи-истории',
+      storyOff: 'Обычные примеры',
+      storyLoading: 'Пишем историю...',
+      notANumber: (heard) => `Я услышал «${heard}». Попробуй ещё раз!`,
+      compliments: ['Хорошо!', 'Отлично!', 'Молодец!', 'У тебя хорошо получается!', 'Ты потрясающий!'],
+      highScoreCompliments: ['Ты почти у цели!', 'Продолжай в том же духе!', 'Скоро победа!', 'Какой ты умный!'],
+    },
+    questions: {
+      multiplication: (num1, num2) => `${num1} умножить на ${num2}`,
+      division: (product, num2) => `${product} разделить на ${num2}`,
+      missingFirst: (num2, product) => `сколько умножить на ${num2} будет ${product}`,
+      missingSecond: (num1, product) => `${num1} умножить на сколько будет ${product}`,
+    },
+    wordProblems: {
+      multiplication: [
+        (num1, num2, _product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `Каждый из ${num1} ${players} собирает по ${num2} ${treasure}. Сколько ${treasure} они соберут вместе?`;
+        },
+        (num1, num2) => `Строитель кладёт ${num1} рядов блоков, по ${num2} блоков в каждом ряду. Сколько всего блоков?`,
+      ],
+      division: [
+        (_num1, num2, product, theme) => {
+          const { withPlayers, treasure } = STORY_WORDS[theme];
+          return `${product} ${treasure} делят поровну между ${num2} ${withPlayers}. Сколько ${treasure} получит каждый?`;
+        },
+        (_num1, num2, product) => `Из ${product} блоков строят башни по ${num2} блоков. Сколько башен получится?`,
+      ],
+      missing_second: [
+        (num1, _num2, product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `${num1} ${players} нашли поровну ${treasure}, вместе ${product}. Сколько ${treasure} нашёл каждый?`;
+        },
+        (num1, _num2, product) => `В замке ${num1} этажей, на каждом одинаковое число окон, всего ${product} окон. Сколько окон на каждом этаже?`,
+      ],
+      missing_first: [
+        (_num1, num2, product, theme) => {
+          const { players, treasure } = STORY_WORDS[theme];
+          return `Несколько ${players} собрали по ${num2} ${treasure}, всего ${product} ${treasure}. Сколько было ${players}?`;
+        },
+        (_num1, num2, product) => `Строитель тратит по ${num2} блоков на каждую башню, всего ${product} блоков. Сколько башен он построил?`,
+      ],
+    },
+    victory: {
+      title: 'Поздравляем!',
+      won: (amount, reward) => `Ты выиграл ${amount} ${reward}! Иди к родителям за подарком!`,
+    },
+    timeUp: {
+      title: 'Время вышло!',
+      correct: (count) => `Верных ответов: ${count}`,
+    },
+    parents: {
+      pinTitle: 'Только для родителей',
+      choosePin: 'Придумайте 4-значный PIN для раздела родителей.',
+      enterPin: 'Введите родительский PIN.',
+      pinPlaceholder: 'PIN',
+      repeatPin: 'Повторите PIN',
+      pinLength: 'PIN должен состоять из 4 цифр.',
+      pinMismatch: 'PIN-коды не совпадают.',
+      wrongPin: 'Неверный PIN.',
+      unlock: 'Открыть',
+      title: 'Панель родителей',
+      noPlayers: 'Игроков пока нет.',
+      timesTables: 'Таблица умножения',
+      sessions: 'Игры',
+      commonMistakes: 'Частые ошибки',
+      questionTypes: 'Типы вопросов',
+      rewards: 'Награды',
+      accuracy: 'Точность',
+      speed: 'Скорость',
+      accuracyLegend: 'Красный = часто ошибается, зелёный = всегда верно.',
+      speedLegend: 'Красный = медленно, зелёный = быстро.',
+      unpracticedLegend: 'Серый = ещё не решал.',
+      factStats: (fact, correct, attempts, average) => `${fact}: верно ${correct}/${attempts}, в среднем ${average}`,
+      factUnpracticed: (fact) => `${fact}: ещё не решал`,
+      noGames: 'Игр пока не было.',
+      sessionOption: (date, answers) => `${date} (ответов: ${answers})`,
+      sessionSummary: (correct, total, typed, finalScore) => `верно ${correct}/${total} · введено ${typed} · итог ${finalScore}`,
+      timedOut: 'время вышло',
+      typed: 'введено',
+      tapped: 'выбрано',
+      spoken: 'сказано',
+      noMistakes: 'Ошибок пока нет.',
+      misconceptions: {
+        neighbour_fact: 'Соседний пример',
+        off_by_one_table: 'Не та таблица',
+        added: 'Сложил вместо умножения',
+        swapped_digits: 'Переставил цифры',
+        previous_answer: 'Предыдущий ответ',
+        other_factor: 'Повторил данное число',
+        near_miss: 'Почти',
+        other: 'Другое',
+      },
+      voice: 'Голос',
+      accessibility: 'Доступность',
+      theme: 'Оформление',
+      themes: {
+        robux: 'Робаксы',
+        space: 'Космос',
+        animals: 'Животные',
+        plain: 'Простое',
+      },
+      sound: 'Звуки',
+      transfer: 'Экспорт и импорт',
+    },
+    rewards: {
+      targetAmount: 'Цель',
+      rewardName: 'Название награды',
+      pointsPerCorrect: 'Очков за верный ответ',
+      typedFrom: 'Ввод ответа с очков',
+      penaltyTitle: 'Штраф за ошибку',
+      fromScore: 'С очков',
+      lose: 'Минус',
+      removeTier: 'Удалить уровень штрафа',
+      addTier: '+ Добавить уровень',
+      defaults: 'По умолчанию',
+    },
+    versus: {
+      open: '⚔️ Дуэль',
+      title: 'Дуэль',
+      styles: {
+        split_screen: { label: 'Разделённый экран', description: 'Один вопрос, очко получает тот, кто первым ответит верно' },
+        hot_seat: { label: 'По очереди', description: 'Ходите по очереди на одном экране' },
+      },
+      players: 'Выберите двух игроков',
+      difficulty: 'Сложность',
+      firstTo: (target) => `Побеждает первый, кто наберёт ${target}!`,
+      turn: (name) => `Ход: ${name}`,
+      wins: (name) => `${name} побеждает!`,
+    },
+    achievements: {
+      open: '🏅 Значки',
+      title: 'Твои значки',
+      unlocked: 'Новый значок!',
+      locked: 'Пока нет',
+      unlockedOn: (date) => `Получен ${date}`,
+      items: {
+        first_win: { name: 'Чемпион', description: 'Выиграй игру' },
+        streak_10: { name: 'В ударе', description: '10 верных ответов подряд' },
+        typed_20: { name: 'Быстрые пальцы', description: 'Введи 20 верных ответов подряд' },
+        comeback: { name: 'Возвращение', description: 'Ответь верно после 3 ошибок' },
+        mastered_7s: { name: 'Мастер семёрок', description: 'Выучи всю таблицу на 7' },
+        first_russian_game: { name: 'Привет!', description: 'Закончи игру на русском' },
+      },
+    },
+    voice: {
+      muted: 'Ничего не читать вслух',
+      voice: 'Голос',
+      automatic: 'Автоматически',
+      noVoices: 'Для этого языка не установлено голосов.',
+      rate: 'Скорость',
+      pitch: 'Высота',
+      volume: 'Громкость',
+      preview: '▶ Прослушать',
+      defaults: 'По умолчанию',
+    },
+    sound: {
+      muted: 'Без звуковых эффектов и музыки',
+      effectsVolume: 'Громкость эффектов',
+      music: 'Фоновая музыка в игре',
+      musicVolume: 'Громкость музыки',
+      preview: '▶ Послушать',
+    },
+    transfer: {
+      exportAnswers: '⬇ Ответы (CSV)',
+      exportFacts: '⬇ Примеры (CSV)',
+      exportBackup: '⬇ Резервная копия (JSON)',
+      importBackup: '⬆ Загрузить копию',
+      importHint: 'Загрузите JSON-копию с другого устройства, чтобы перенести игрока.',
+      imported: (name) => `${name}: импорт выполнен.`,
+      conflict: (name) => `${name} уже есть на этом устройстве. Объединить прогресс или оставить обоих?`,
+      noMatch: (name) => `${name} ещё нет на этом устройстве. Добавить как нового игрока или объединить с тем, кто уже есть?`,
+      mergeInto: 'Объединить с',
+      merge: 'Объединить',
+      keepBoth: 'Оставить обоих',
+      addNew: 'Добавить как нового',
+      readFailed: 'Не удалось прочитать файл.',
+      errors: {
+        invalid_json: 'Этот файл не является резервной копией.',
+        wrong_format: 'Этот файл не является копией из этой игры.',
+        newer_version: 'Копия сделана в более новой версии игры. Сначала обновите это устройство.',
+        invalid_profile: 'Копия повреждена.',
+      },
+    },
+    homework: {
+      open: '📝 Домашнее задание',
+      title: 'Домашнее задание',
+      pickPlayer: (title, questions) => `Домашнее задание${title ? `: ${title}` : ''} (вопросов: ${questions}). Кто выполняет?`,
+      intro: (questions) => `Вопросов: ${questions}. Ответьте на все и отдайте код учителю.`,
+      progress: (question, total) => `Вопрос ${question} из ${total}`,
+      doneTitle: 'Задание выполнено!',
+      score: (correct, total) => `Верно: ${correct} из ${total}`,
+      codeHint: 'Отдайте этот код учителю.',
+      copy: 'Копировать',
+      copied: 'Скопировано!',
+      done: 'Готово',
+      create: 'Создать задание',
+      assignmentTitle: 'Название (необязательно)',
+      tables: 'Таблицы',
+      questionCount: 'Вопросов',
+      questionTypes: 'Типы вопросов',
+      inputMode: 'Ответы',
+      inputModes: {
+        adaptive: 'Решает игра',
+        choice: 'Выбор ответа',
+        typed: 'Только ввод',
+      },
+      createLink: 'Создать ссылку',
+      linkHint: 'Поделитесь ссылкой или покажите QR-код. Ученики открывают её и выбирают своего игрока.',
+      tooLongForQr: 'Ссылка слишком длинная для QR-кода, поделитесь самой ссылкой.',
+      verify: 'Проверить код результата',
+      codePlaceholder: 'Вставьте код результата',
+      check: 'Проверить',
+      result: (name, correct, total) => `${name}: верно ${correct} из ${total}`,
+      resultDetails: (assignmentId, minutes, date) => `Задание ${assignmentId} · ${minutes} мин · ${date}`,
+      errors: {
+        invalid_code: 'Это не код результата.',
+        tampered: 'Код был изменён. Попросите исходный код.',
+      },
+    },
+    accessibility: {
+      correct: 'Верно!',
+      incorrect: (answer) => `Не совсем. Правильный ответ: ${answer}.`,
+      score: (score, reward) => `У тебя ${score} ${reward}.`,
+      keyboardHint: 'Клавиши 1-4 или стрелки + Enter',
+      colorBlind: 'Показывать ✓ и ✗ цветами, различимыми при дальтонизме',
+      motion: 'Анимация',
+      motions: {
+        system: 'Как на устройстве',
+        reduced: 'Меньше',
+        full: 'Полная',
+      },
+    },
+  },
+};
+
+export default ru;
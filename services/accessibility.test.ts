@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ACCESSIBILITY, getOptionKeyAction, sanitizeAccessibility, shouldReduceMotion } from './accessibility';
+
+describe('sanitizeAccessibility', () => {
+  it('falls back to the defaults for bad data', () => {
+    expect(sanitizeAccessibility(undefined)).toEqual(DEFAULT_ACCESSIBILITY);
+    expect(sanitizeAccessibility({ colorBlindFeedback: 'yes', motion: 'wobbly' })).toEqual(DEFAULT_ACCESSIBILITY);
+    expect(sanitizeAccessibility({ colorBlindFeedback: true, motion: 'reduced' })).toEqual({ colorBlindFeedback: true, motion: 'reduced' });
+  });
+});
+
+it('follows the device setting only when asked to', () => {
+  expect(shouldReduceMotion('system', true)).toBe(true);
+  expect(shouldReduceMotion('system', false)).toBe(false);
+  expect(shouldReduceMotion('full', true)).toBe(false);
+  expect(shouldReduceMotion('reduced', false)).toBe(true);
+});
+
+describe('getOptionKeyAction', () => {
+  it('picks options with the number keys', () => {
+    expect(getOptionKeyAction('1', null, 4)).toEqual({ type: 'choose', index: 0 });
+    expect(getOptionKeyAction('4', 2, 4)).toEqual({ type: 'choose', index: 3 });
+    expect(getOptionKeyAction('5', null, 4)).toBeNull();
+    expect(getOptionKeyAction('0', null, 4)).toBeNull();
+  });
+
+  it('moves focus around the 2x2 grid and wraps', () => {
+    expect(getOptionKeyAction('ArrowDown', null, 4)).toEqual({ type: 'focus', index: 0 });
+    expect(getOptionKeyAction('ArrowRight', 0, 4)).toEqual({ type: 'focus', index: 1 });
+    expect(getOptionKeyAction('ArrowDown', 1, 4)).toEqual({ type: 'focus', index: 3 });
+    expect(getOptionKeyAction('ArrowDown', 3, 4)).toEqual({ type: 'focus', index: 1 });
+    expect(getOptionKeyAction('ArrowLeft', 0, 4)).toEqual({ type: 'focus', index: 3 });
+  });
+
+  it('mirrors left and right for right-to-left pages', () => {
+    expect(getOptionKeyAction('ArrowLeft', 0, 4, true)).toEqual({ type: 'focus', index: 1 });
+    expect(getOptionKeyAction('ArrowRight', 1, 4, true)).toEqual({ type: 'focus', index: 0 });
+  });
+
+  it('ignores other keys', () => {
+    expect(getOptionKeyAction('a', 0, 4)).toBeNull();
+    expect(getOptionKeyAction('Enter', 0, 4)).toBeNull();
+  });
+});
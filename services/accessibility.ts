@@ -0,0 +1,62 @@
+import { AccessibilitySettings, MotionPreference } from '../types';
+
+// ============================================================================
+// ACCESSIBILITY
+// ============================================================================
+
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduced', 'full'];
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  colorBlindFeedback: false,
+  motion: 'system',
+};
+
+export const sanitizeAccessibility = (value: unknown): AccessibilitySettings => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_ACCESSIBILITY;
+  }
+  const data = value as Record<string, unknown>;
+  return {
+    colorBlindFeedback: data.colorBlindFeedback === true,
+    motion: MOTION_PREFERENCES.includes(data.motion as MotionPreference) ? data.motion as MotionPreference : DEFAULT_ACCESSIBILITY.motion,
+  };
+};
+
+export const shouldReduceMotion = (motion: MotionPreference, systemPrefersReduced: boolean): boolean =>
+  motion === 'reduced' || (motion === 'system' && systemPrefersReduced);
+
+// ----------------------------------------------------------------------------
+// Keyboard play
+// ----------------------------------------------------------------------------
+// Answer options sit in a grid: number keys pick one outright, arrow keys move
+// focus around it (wrapping at the edges) and Enter clicks the focused button.
+
+export type OptionKeyAction =
+  | { type: 'choose'; index: number }
+  | { type: 'focus'; index: number };
+
+export const OPTION_COLUMNS = 2;
+
+export const getOptionKeyAction = (
+  key: string,
+  focusedIndex: number | null,
+  optionCount: number,
+  // Right-to-left pages mirror the grid, so left and right swap
+  isRtl = false,
+): OptionKeyAction | null => {
+  const number = /^[1-9]$/.test(key) ? Number(key) : 0;
+  if (number > 0) {
+    return number <= optionCount ? { type: 'choose', index: number - 1 } : null;
+  }
+
+  const forward = isRtl ? -1 : 1;
+  const steps: Record<string, number> = {
+    ArrowRight: forward,
+    ArrowLeft: -forward,
+    ArrowDown: OPTION_COLUMNS,
+    ArrowUp: -OPTION_COLUMNS,
+  };
+  if (!(key in steps) || optionCount === 0) return null;
+  if (focusedIndex === null) return { type: 'focus', index: 0 };
+  return { type: 'focus', index: (focusedIndex + steps[key] + optionCount) % optionCount };
+};
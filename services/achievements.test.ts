@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerRecord, Difficulty, GameRecord, Profile } from '../types';
+import { createProfile } from './profiles';
+import { getFactKey, MASTERED_BOX, MAX_FACTOR } from './mastery';
+import { AchievementEvent, evaluateAchievements, unlockAchievements } from './achievements';
+import { makeAnswer } from './testUtils';
+
+// The profile after `answers` were logged, and the event for the last one
+const afterAnswers = (answers: AnswerRecord[], profile: Profile = createProfile('Test', '🦊')): [Profile, AchievementEvent] => [
+  { ...profile, answers },
+  { type: 'answer', answer: answers[answers.length - 1] },
+];
+
+const makeGame = (changes: Partial<GameRecord>): GameRecord => ({
+  mode: 'classic',
+  difficulty: Difficulty.Easy,
+  language: 'English',
+  robuxScore: 100,
+  won: false,
+  finishedAt: 5000,
+  ...changes,
+});
+
+describe('evaluateAchievements', () => {
+  it('awards a streak of 10 right answers in one session', () => {
+    const nine = Array.from({ length: 9 }, () => makeAnswer());
+    expect(evaluateAchievements(...afterAnswers(nine))).not.toContain('streak_10');
+    expect(evaluateAchievements(...afterAnswers([...nine, makeAnswer()]))).toContain('streak_10');
+    // An earlier session doesn't count towards this one
+    const split = [...nine.map(a => ({ ...a, sessionStartedAt: 1 })), makeAnswer()];
+    expect(evaluateAchievements(...afterAnswers(split))).not.toContain('streak_10');
+  });
+
+  it('awards 20 right typed answers in a row', () => {
+    const typed = Array.from({ length: 20 }, () => makeAnswer({ inputMode: 'typed' }));
+    expect(evaluateAchievements(...afterAnswers(typed))).toContain('typed_20');
+    const interrupted = [...typed.slice(1, 10), makeAnswer({ inputMode: 'choice' }), ...typed.slice(10)];
+    expect(evaluateAchievements(...afterAnswers(interrupted))).not.toContain('typed_20');
+  });
+
+  it('awards a comeback after three wrong answers', () => {
+    const wrong = [makeAnswer({ correct: false }), makeAnswer({ correct: false }), makeAnswer({ correct: false })];
+    expect(evaluateAchievements(...afterAnswers([...wrong, makeAnswer()]))).toContain('comeback');
+    expect(evaluateAchievements(...afterAnswers([...wrong.slice(1), makeAnswer()]))).not.toContain('comeback');
+    expect(evaluateAchievements(...afterAnswers([...wrong, makeAnswer({ correct: false })]))).not.toContain('comeback');
+  });
+
+  it('awards mastering the whole 7 times table', () => {
+    const profile = createProfile('Test', '🦊');
+    const stats = { attempts: 5, correct: 5, averageResponseMs: 2000, box: MASTERED_BOX, lastSeenAt: 0, dueAt: 0 };
+    const mastery = Object.fromEntries(Array.from({ length: MAX_FACTOR }, (_, i) => [getFactKey(7, i + 1), stats]));
+    expect(evaluateAchievements(...afterAnswers([makeAnswer()], { ...profile, mastery }))).toContain('mastered_7s');
+    const { [getFactKey(7, 12)]: _, ...missingOne } = mastery;
+    expect(evaluateAchievements(...afterAnswers([makeAnswer()], { ...profile, mastery: missingOne }))).not.toContain('mastered_7s');
+  });
+
+  it('awards finished games', () => {
+    const profile = createProfile('Test', '🦊');
+    expect(evaluateAchievements(profile, { type: 'game_end', record: makeGame({ won: true }) })).toEqual(['first_win']);
+    expect(evaluateAchievements(profile, { type: 'game_end', record: makeGame({ language: 'Russian' }) })).toEqual(['first_russian_game']);
+    expect(evaluateAchievements(profile, { type: 'game_end', record: makeGame({}) })).toEqual([]);
+  });
+
+  it('never awards a badge twice', () => {
+    const profile = { ...createProfile('Test', '🦊'), achievements: { first_win: 1 } };
+    expect(evaluateAchievements(profile, { type: 'game_end', record: makeGame({ won: true }) })).toEqual([]);
+  });
+});
+
+describe('unlockAchievements', () => {
+  it('keeps the first unlock time', () => {
+    expect(unlockAchievements({ first_win: 1 }, ['first_win', 'comeback'], 50)).toEqual({ first_win: 1, comeback: 50 });
+  });
+});
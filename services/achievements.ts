@@ -0,0 +1,93 @@
+import { AchievementId, AnswerRecord, GameRecord, Profile, UnlockedAchievements } from '../types';
+import { getFactKey, isFactMastered, MAX_FACTOR } from './mastery';
+
+// ============================================================================
+// ACHIEVEMENTS (badges earned along the way)
+// ============================================================================
+// Each answer and each finished game is an event. Badges are checked against
+// the player's profile as it is after the event was recorded, so the answer
+// log and mastery map already include it.
+
+export type AchievementEvent =
+  | { type: 'answer'; answer: AnswerRecord }
+  | { type: 'game_end'; record: GameRecord };
+
+interface AchievementDefinition {
+  id: AchievementId;
+  icon: string;
+  isEarned: (profile: Profile, event: AchievementEvent) => boolean;
+}
+
+export const STREAK_TARGET = 10;
+export const TYPED_STREAK_TARGET = 20;
+// Wrong answers in a row that a correct one has to follow for a comeback
+export const COMEBACK_AFTER = 3;
+export const MASTERY_TABLE = 7;
+
+// This session's answers up to and including `answer`
+const getSessionAnswers = (profile: Profile, answer: AnswerRecord): AnswerRecord[] =>
+  profile.answers.filter(a => a.sessionStartedAt === answer.sessionStartedAt);
+
+// How many answers at the end of the list match
+const countTrailing = (answers: AnswerRecord[], matches: (answer: AnswerRecord) => boolean): number => {
+  let count = 0;
+  for (let i = answers.length - 1; i >= 0 && matches(answers[i]); i--) {
+    count++;
+  }
+  return count;
+};
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_win',
+    icon: '🏆',
+    isEarned: (_, event) => event.type === 'game_end' && event.record.won,
+  },
+  {
+    id: 'streak_10',
+    icon: '🔥',
+    isEarned: (profile, event) =>
+      event.type === 'answer' && countTrailing(getSessionAnswers(profile, event.answer), a => a.correct) >= STREAK_TARGET,
+  },
+  {
+    id: 'typed_20',
+    icon: '⌨️',
+    isEarned: (profile, event) =>
+      event.type === 'answer'
+      && countTrailing(getSessionAnswers(profile, event.answer), a => a.correct && a.inputMode === 'typed') >= TYPED_STREAK_TARGET,
+  },
+  {
+    id: 'comeback',
+    icon: '💪',
+    isEarned: (profile, event) =>
+      event.type === 'answer'
+      && event.answer.correct
+      && countTrailing(getSessionAnswers(profile, event.answer).slice(0, -1), a => !a.correct) >= COMEBACK_AFTER,
+  },
+  {
+    id: 'mastered_7s',
+    icon: '🎯',
+    isEarned: (profile, event) =>
+      event.type === 'answer'
+      && Array.from({ length: MAX_FACTOR }, (_, i) => profile.mastery[getFactKey(MASTERY_TABLE, i + 1)]).every(isFactMastered),
+  },
+  {
+    id: 'first_russian_game',
+    icon: '🪆',
+    isEarned: (_, event) => event.type === 'game_end' && event.record.language === 'Russian',
+  },
+];
+
+export const ACHIEVEMENT_IDS: AchievementId[] = ACHIEVEMENTS.map(a => a.id);
+
+// Badges the event earns that the player doesn't have yet
+export const evaluateAchievements = (profile: Profile, event: AchievementEvent): AchievementId[] =>
+  ACHIEVEMENTS
+    .filter(a => profile.achievements[a.id] === undefined && a.isEarned(profile, event))
+    .map(a => a.id);
+
+export const unlockAchievements = (unlocked: UnlockedAchievements, ids: AchievementId[], now: number = Date.now()): UnlockedAchievements =>
+  ids.reduce((result, id) => ({ ...result, [id]: result[id] ?? now }), unlocked);
+
+export const getAchievementIcon = (id: AchievementId): string =>
+  ACHIEVEMENTS.find(a => a.id === id)?.icon ?? '🏅';
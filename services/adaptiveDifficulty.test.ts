@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveState, Difficulty } from '../types';
+import { createAdaptiveState, estimateSuccess, getFactorRanges, getTypedShare, MAX_LEVEL, sanitizeAdaptiveState, TARGET_SUCCESS, updateAdaptiveState, WINDOW_SIZE } from './adaptiveDifficulty';
+
+const QUICK = { correct: true, responseMs: 1500 };
+const SLOW = { correct: true, responseMs: 9000 };
+const WRONG = { correct: false, responseMs: 3000 };
+
+// Plays `count` answers, the i-th one correct when `isCorrect(i)`
+const play = (state: AdaptiveState, count: number, isCorrect: (i: number) => boolean): AdaptiveState => {
+  for (let i = 0; i < count; i++) {
+    state = updateAdaptiveState(state, isCorrect(i) ? QUICK : WRONG);
+  }
+  return state;
+};
+
+describe('updateAdaptiveState', () => {
+  it('climbs while the player is above the target and falls below it', () => {
+    const start = createAdaptiveState(Difficulty.Moderate);
+    expect(play(start, 20, () => true).level).toBeGreaterThan(start.level);
+    expect(play(start, 20, i => i % 2 === 0).level).toBeLessThan(start.level);
+  });
+
+  it('settles where the player gets about 80% right', () => {
+    const start = createAdaptiveState(Difficulty.Moderate);
+    // Four right, one wrong, over and over
+    const settled = play(start, 30, i => i % 5 !== 4);
+    expect(Math.abs(settled.level - start.level)).toBeLessThanOrEqual(1);
+    expect(play(settled, 20, i => i % 5 !== 4).level).toBeCloseTo(settled.level);
+  });
+
+  it('counts slow right answers as only partly successful', () => {
+    expect(estimateSuccess([QUICK, QUICK])).toBe(1);
+    expect(estimateSuccess([SLOW, SLOW])).toBeLessThan(TARGET_SUCCESS);
+    expect(estimateSuccess([])).toBe(TARGET_SUCCESS);
+  });
+
+  it('keeps a rolling window and stays within the levels', () => {
+    const state = play(createAdaptiveState(Difficulty.Hard), 100, () => true);
+    expect(state.recent).toHaveLength(WINDOW_SIZE);
+    expect(state.level).toBe(MAX_LEVEL);
+    expect(play(createAdaptiveState(Difficulty.Easy), 20, () => false).level).toBe(0);
+  });
+});
+
+describe('getFactorRanges', () => {
+  it('moves the factors up a step at a time', () => {
+    let previous = getFactorRanges(0);
+    expect(previous).toEqual({ focus: { min: 1, max: 3 }, other: { min: 1, max: 5 } });
+    for (let level = 0.5; level <= MAX_LEVEL; level += 0.5) {
+      const ranges = getFactorRanges(level);
+      expect(ranges.focus.max - previous.focus.max).toBeLessThanOrEqual(1);
+      expect(ranges.other.max - previous.other.max).toBeLessThanOrEqual(1);
+      previous = ranges;
+    }
+    expect(previous.focus).toEqual({ min: 7, max: 12 });
+  });
+});
+
+it('mixes in typed questions gradually', () => {
+  expect(getTypedShare(0)).toBe(0);
+  expect(getTypedShare(7)).toBe(0.5);
+  expect(getTypedShare(MAX_LEVEL)).toBe(1);
+});
+
+it('restores saved state', () => {
+  expect(sanitizeAdaptiveState({ level: 4.5, recent: [QUICK, { correct: 'yes' }] })).toEqual({ level: 4.5, recent: [QUICK] });
+  expect(sanitizeAdaptiveState({ level: 99 }).level).toBe(MAX_LEVEL);
+});
+
+it('carries old whole-number levels over to the same difficulty', () => {
+  // Where Easy, Moderate and Hard used to start
+  expect(sanitizeAdaptiveState(undefined, 0)).toEqual(createAdaptiveState(Difficulty.Easy));
+  expect(sanitizeAdaptiveState(undefined, 2)).toEqual(createAdaptiveState(Difficulty.Moderate));
+  expect(sanitizeAdaptiveState(undefined, 5)).toEqual(createAdaptiveState(Difficulty.Hard));
+  // A Hard player who had eased off a level lands between Moderate and Hard
+  const eased = sanitizeAdaptiveState(undefined, 4).level;
+  expect(eased).toBeGreaterThan(createAdaptiveState(Difficulty.Moderate).level);
+  expect(eased).toBeLessThan(createAdaptiveState(Difficulty.Hard).level);
+});
@@ -0,0 +1,132 @@
+import { AdaptiveState, Difficulty, RecentAnswer } from '../types';
+import { MAX_FACTOR, SLOW_ANSWER_MS } from './mastery';
+
+// ============================================================================
+// ADAPTIVE DIFFICULTY
+// ============================================================================
+// One continuous level decides which factors are asked and how many questions
+// are typed. After every answer it moves to keep the success rate over the
+// last few answers near TARGET_SUCCESS: above it the game gets harder, below
+// it easier. A right but slow answer only counts as a partial success, so a
+// child who is getting there by counting on their fingers isn't pushed on.
+
+export const TARGET_SUCCESS = 0.8;
+export const WINDOW_SIZE = 10;
+export const MAX_LEVEL = 10;
+
+// Levels moved per answer when a full window is all right and quick / all wrong
+const STEP_UP = 0.5;
+const STEP_DOWN = 1;
+
+// Right answers up to this fast count fully, slower ones less, down to SLOW_SUCCESS
+const QUICK_ANSWER_MS = 2500;
+const SLOW_SUCCESS = 0.6;
+
+// Typed questions start to be mixed in at this level and take over TYPED_RAMP levels later
+const TYPED_FROM_LEVEL = 5;
+const TYPED_RAMP = 4;
+
+export interface FactorRange {
+  min: number;
+  max: number;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+export const getStartingLevel = (difficulty: Difficulty): number => {
+  switch (difficulty) {
+    case Difficulty.Moderate:
+      return 4;
+    case Difficulty.Hard:
+      return 7;
+    case Difficulty.Easy:
+    default:
+      return 0;
+  }
+};
+
+export const createAdaptiveState = (difficulty: Difficulty): AdaptiveState => ({
+  level: getStartingLevel(difficulty),
+  recent: [],
+});
+
+// How well one answer went, from 0 (wrong) to 1 (right and quick)
+export const getAnswerSuccess = ({ correct, responseMs }: RecentAnswer): number => {
+  if (!correct) return 0;
+  const slowness = clamp((responseMs - QUICK_ANSWER_MS) / (SLOW_ANSWER_MS - QUICK_ANSWER_MS), 0, 1);
+  return 1 - slowness * (1 - SLOW_SUCCESS);
+};
+
+// The success rate over the window, or the target before anything is answered
+export const estimateSuccess = (recent: RecentAnswer[]): number =>
+  recent.length === 0
+    ? TARGET_SUCCESS
+    : recent.reduce((sum, answer) => sum + getAnswerSuccess(answer), 0) / recent.length;
+
+export const updateAdaptiveState = (state: AdaptiveState, answer: RecentAnswer): AdaptiveState => {
+  const recent = [...state.recent, answer].slice(-WINDOW_SIZE);
+  const estimate = estimateSuccess(recent);
+  // A few answers say less than a full window, so early steps are smaller
+  const confidence = recent.length / WINDOW_SIZE;
+  const change = estimate >= TARGET_SUCCESS
+    ? STEP_UP * (estimate - TARGET_SUCCESS) / (1 - TARGET_SUCCESS)
+    : -STEP_DOWN * (TARGET_SUCCESS - estimate) / TARGET_SUCCESS;
+  return {
+    level: clamp(state.level + change * confidence, 0, MAX_LEVEL),
+    recent,
+  };
+};
+
+// The harder factor slides from 1-3 up to 7-12; the other one widens from 1-5 to 4-12
+export const getFactorRanges = (level: number): { focus: FactorRange; other: FactorRange } => {
+  const focusMax = Math.min(MAX_FACTOR, Math.round(3 + level * 0.9));
+  return {
+    focus: { min: Math.max(1, focusMax - 5), max: focusMax },
+    other: { min: Math.max(1, Math.round(level / 2) - 1), max: Math.min(MAX_FACTOR, Math.round(5 + level * 0.7)) },
+  };
+};
+
+// Share of questions answered by typing rather than picking an option
+export const getTypedShare = (level: number): number =>
+  clamp((level - TYPED_FROM_LEVEL) / TYPED_RAMP, 0, 1);
+
+const isRecentAnswer = (value: unknown): value is RecentAnswer => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { correct, responseMs } = value as Record<string, unknown>;
+  return typeof correct === 'boolean' && typeof responseMs === 'number' && Number.isFinite(responseMs) && responseMs >= 0;
+};
+
+// Before the controller, each difficulty started at a whole-number level of its
+// own (Easy 0, Moderate 2, Hard 5) that only ever eased down. Those starts map
+// onto the controller's starts for the same difficulty, and levels in between
+// onto the levels in between.
+const LEGACY_STARTING_LEVELS: { legacyLevel: number; difficulty: Difficulty }[] = [
+  { legacyLevel: 0, difficulty: Difficulty.Easy },
+  { legacyLevel: 2, difficulty: Difficulty.Moderate },
+  { legacyLevel: 5, difficulty: Difficulty.Hard },
+];
+
+const fromLegacyLevel = (legacyLevel: number): number => {
+  for (let i = 1; i < LEGACY_STARTING_LEVELS.length; i++) {
+    const lower = LEGACY_STARTING_LEVELS[i - 1];
+    const upper = LEGACY_STARTING_LEVELS[i];
+    if (legacyLevel <= upper.legacyLevel) {
+      const from = getStartingLevel(lower.difficulty);
+      const to = getStartingLevel(upper.difficulty);
+      const progress = (Math.max(legacyLevel, lower.legacyLevel) - lower.legacyLevel) / (upper.legacyLevel - lower.legacyLevel);
+      return from + (to - from) * progress;
+    }
+  }
+  return getStartingLevel(LEGACY_STARTING_LEVELS[LEGACY_STARTING_LEVELS.length - 1].difficulty);
+};
+
+// Saves from before the controller only had the old whole-number level, passed in as `legacyLevel`
+export const sanitizeAdaptiveState = (value: unknown, legacyLevel = 0): AdaptiveState => {
+  const data = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const level = typeof data.level === 'number' && Number.isFinite(data.level) ? data.level : fromLegacyLevel(legacyLevel);
+  return {
+    level: clamp(level, 0, MAX_LEVEL),
+    recent: Array.isArray(data.recent) ? data.recent.filter(isRecentAnswer).slice(-WINDOW_SIZE).map(({ correct, responseMs }) => ({ correct, responseMs })) : [],
+  };
+};
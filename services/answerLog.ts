@@ -0,0 +1,73 @@
+import { AnswerEvent, AnswerRecord, Misconception } from '../types';
+import { getFactKey } from './mastery';
+
+// ============================================================================
+// ANSWER LOG (parent dashboard data)
+// ============================================================================
+
+// Oldest answers are dropped past this, roughly 40 full games
+export const MAX_ANSWERS = 2000;
+
+export interface FactSummary {
+  attempts: number;
+  correct: number;
+  averageResponseMs: number;
+}
+
+export interface MisconceptionSummary {
+  misconception: Misconception;
+  count: number;
+}
+
+export interface SessionSummary {
+  startedAt: number;
+  answers: AnswerRecord[];
+}
+
+export const addAnswerRecord = (answers: AnswerRecord[], event: AnswerEvent, sessionStartedAt: number, now: number = Date.now()): AnswerRecord[] =>
+  [...answers, { ...event, sessionStartedAt, answeredAt: now }].slice(-MAX_ANSWERS);
+
+// Accuracy and speed per fact, keyed by getFactKey
+export const summarizeFacts = (answers: AnswerRecord[]): Record<string, FactSummary> => {
+  const totals: Record<string, { attempts: number; correct: number; totalMs: number }> = {};
+  for (const answer of answers) {
+    const key = getFactKey(answer.num1, answer.num2);
+    const total = totals[key] ?? (totals[key] = { attempts: 0, correct: 0, totalMs: 0 });
+    total.attempts++;
+    total.correct += answer.correct ? 1 : 0;
+    total.totalMs += answer.responseMs;
+  }
+  const summaries: Record<string, FactSummary> = {};
+  for (const [key, total] of Object.entries(totals)) {
+    summaries[key] = {
+      attempts: total.attempts,
+      correct: total.correct,
+      averageResponseMs: Math.round(total.totalMs / total.attempts),
+    };
+  }
+  return summaries;
+};
+
+// Wrong answers by likely mistake, most frequent first
+export const summarizeMisconceptions = (answers: AnswerRecord[]): MisconceptionSummary[] => {
+  const counts = new Map<Misconception, number>();
+  for (const answer of answers) {
+    if (answer.misconception) {
+      counts.set(answer.misconception, (counts.get(answer.misconception) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([misconception, count]) => ({ misconception, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Newest session first
+export const groupSessions = (answers: AnswerRecord[]): SessionSummary[] => {
+  const sessions = new Map<number, AnswerRecord[]>();
+  for (const answer of answers) {
+    const list = sessions.get(answer.sessionStartedAt) ?? [];
+    list.push(answer);
+    sessions.set(answer.sessionStartedAt, list);
+  }
+  return Array.from(sessions, ([startedAt, list]) => ({ startedAt, answers: list }))
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES } from '../locales';
+import { getLocale } from './i18n';
+import { getQuestionText } from './questionTypes';
+import { CLIP_ROOT, getClipManifest, getClipNames, getNumberClips } from './audioClips';
+
+describe('getNumberClips', () => {
+  it('splits numbers into recorded parts', () => {
+    expect(getNumberClips(0)).toEqual(['0']);
+    expect(getNumberClips(13)).toEqual(['13']);
+    expect(getNumberClips(40)).toEqual(['40']);
+    expect(getNumberClips(56)).toEqual(['50', '6']);
+    expect(getNumberClips(144)).toEqual(['100', '40', '4']);
+    expect(getNumberClips(110)).toEqual(['100', '10']);
+  });
+
+  it('puts the joiner before the last part', () => {
+    expect(getNumberClips(56, 'and')).toEqual(['50', 'and', '6']);
+    expect(getNumberClips(144, 'and')).toEqual(['100', '40', 'and', '4']);
+    expect(getNumberClips(7, 'and')).toEqual(['7']);
+  });
+});
+
+describe('getClipNames', () => {
+  it('stitches questions in every language', () => {
+    const question = { num1: 7, num2: 8, type: 'multiplication' } as const;
+    expect(getClipNames(getQuestionText(question, 'English'), getLocale('English').clips)).toEqual(['7', 'times', '8']);
+    expect(getClipNames(getQuestionText(question, 'Hebrew'), getLocale('Hebrew').clips)).toEqual(['7', 'times', '8']);
+    expect(getClipNames(getQuestionText(question, 'Russian'), getLocale('Russian').clips)).toEqual(['7', 'multiply', 'by', '8']);
+  });
+
+  it('covers every question type', () => {
+    for (const locale of LOCALES) {
+      for (const type of ['multiplication', 'division', 'missing_first', 'missing_second'] as const) {
+        expect(getClipNames(getQuestionText({ num1: 12, num2: 12, type }, locale.id), locale.clips)).not.toBeNull();
+      }
+    }
+  });
+
+  it('gives up on text without recordings', () => {
+    expect(getClipNames('You are amazing!', getLocale('English').clips)).toBeNull();
+    expect(getClipNames('', getLocale('English').clips)).toBeNull();
+    expect(getClipNames('7 constructor 8', getLocale('English').clips)).toBeNull();
+  });
+});
+
+describe('getClipManifest', () => {
+  it('lists only the recordings among the public files', () => {
+    expect(getClipManifest(['manifest.json', `${CLIP_ROOT}/en/times.mp3`, `${CLIP_ROOT}/en/7.mp3`, `${CLIP_ROOT}/readme.txt`, 'other/8.mp3']))
+      .toEqual([`${CLIP_ROOT}/en/7.mp3`, `${CLIP_ROOT}/en/times.mp3`]);
+  });
+});
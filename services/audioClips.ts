@@ -0,0 +1,69 @@
+// ============================================================================
+// AUDIO CLIPS (pre-recorded speech)
+// ============================================================================
+// When a device has no voice for a language, questions are stitched together
+// from recordings: "7 times 8" plays 7.mp3, times.mp3 and 8.mp3. Number clips
+// are named by value (0-19, the tens and the hundreds); word clips are named
+// by each catalog. The build lists the recordings that are actually present
+// in audio/clips.json (and precaches them for offline play); a question with
+// any recording missing from that list is read by the default voice instead.
+
+export interface ClipVocabulary {
+  // Folder under public/audio/ holding this language's recordings
+  folder: string;
+  // Words that appear in spoken questions and the clip that says each one
+  words: Record<string, string>;
+  // Clip played before the last part of a compound number, like the Hebrew "ו" in "חמישים ושש"
+  numberJoiner?: string;
+}
+
+export const CLIP_ROOT = 'audio';
+
+// Answers and products never go past 12 x 12
+export const MAX_SPOKEN_NUMBER = 144;
+
+// Lists the recordings present, as paths like the ones getClipPath returns
+export const CLIP_MANIFEST_PATH = `${CLIP_ROOT}/clips.json`;
+
+export const getClipPath = (vocabulary: ClipVocabulary, clip: string): string =>
+  `${CLIP_ROOT}/${vocabulary.folder}/${clip}.mp3`;
+
+// The recordings among a list of public files (paths relative to public/)
+export const getClipManifest = (files: string[]): string[] =>
+  files.filter(file => file.startsWith(`${CLIP_ROOT}/`) && file.endsWith('.mp3')).sort();
+
+// 144 -> ['100', '40', '4'], or ['100', '40', 'and', '4'] with a joiner
+export const getNumberClips = (value: number, numberJoiner?: string): string[] => {
+  const clips: string[] = [];
+  const hundreds = Math.floor(value / 100) * 100;
+  const rest = value % 100;
+  if (hundreds > 0) {
+    clips.push(String(hundreds));
+  }
+  if (rest >= 20) {
+    clips.push(String(rest - (rest % 10)));
+    if (rest % 10 > 0) clips.push(String(rest % 10));
+  } else if (rest > 0 || clips.length === 0) {
+    clips.push(String(rest));
+  }
+  if (numberJoiner && clips.length > 1) {
+    clips.splice(clips.length - 1, 0, numberJoiner);
+  }
+  return clips;
+};
+
+// The clips that say `text`, or null when any part of it has no recording
+export const getClipNames = (text: string, vocabulary: ClipVocabulary): string[] | null => {
+  const clips: string[] = [];
+  const tokens = text.toLowerCase().replace(/[,.!?]/g, ' ').split(/\s+/).filter(Boolean);
+  for (const token of tokens) {
+    if (/^\d+$/.test(token) && Number(token) <= MAX_SPOKEN_NUMBER) {
+      clips.push(...getNumberClips(Number(token), vocabulary.numberJoiner));
+    } else if (Object.hasOwn(vocabulary.words, token)) {
+      clips.push(vocabulary.words[token]);
+    } else {
+      return null;
+    }
+  }
+  return clips.length > 0 ? clips : null;
+};
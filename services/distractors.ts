@@ -0,0 +1,99 @@
+import { AnswerOption, Misconception, Question } from '../types';
+import { getAnswer } from './questionTypes';
+
+// ============================================================================
+// DISTRACTORS (wrong options modeled on real mistakes)
+// ============================================================================
+
+type DistractorSource = Pick<Question, 'num1' | 'num2' | 'type' | 'previousAnswer'>;
+
+export const OPTION_COUNT = 4;
+
+export const MISCONCEPTIONS: Misconception[] = [
+  'neighbour_fact',
+  'off_by_one_table',
+  'added',
+  'swapped_digits',
+  'previous_answer',
+  'other_factor',
+  'near_miss',
+  'other',
+];
+
+const reverseDigits = (value: number): number | null => {
+  if (value < 10) return null;
+  const reversed = Number(String(value).split('').reverse().join(''));
+  return reversed !== value && reversed > 0 ? reversed : null;
+};
+
+// Every plausible wrong answer for a question, most telling mistakes first
+export const getMisconceptionCandidates = (source: DistractorSource): AnswerOption[] => {
+  const { num1, num2, type, previousAnswer } = source;
+  const answer = getAnswer(source);
+  const candidates: AnswerOption[] = [];
+  const add = (value: number | null, misconception: Misconception) => {
+    if (value !== null && value > 0 && value !== answer && !candidates.some(c => c.value === value)) {
+      candidates.push({ value, misconception });
+    }
+  };
+
+  if (type === 'multiplication') {
+    add(num1 * (num2 + 1), 'neighbour_fact');
+    add(num1 * (num2 - 1), 'neighbour_fact');
+    add((num1 + 1) * num2, 'off_by_one_table');
+    add((num1 - 1) * num2, 'off_by_one_table');
+    add(num1 + num2, 'added');
+    add(reverseDigits(answer), 'swapped_digits');
+  } else {
+    // The answer is a factor: repeating the visible factor, or being one fact off
+    add(type === 'missing_second' ? num1 : num2, 'other_factor');
+    add(answer + 1, 'neighbour_fact');
+    add(answer - 1, 'neighbour_fact');
+    add(reverseDigits(answer), 'swapped_digits');
+  }
+  add(previousAnswer, 'previous_answer');
+
+  return candidates;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// The correct answer plus three unique, positive wrong options, shuffled
+export const buildOptions = (source: DistractorSource, random: () => number = Math.random): AnswerOption[] => {
+  const answer = getAnswer(source);
+  const options: AnswerOption[] = [{ value: answer, misconception: null }];
+  const has = (value: number) => options.some(o => o.value === value);
+
+  for (const candidate of shuffle(getMisconceptionCandidates(source), random)) {
+    if (options.length >= OPTION_COUNT) break;
+    options.push(candidate);
+  }
+
+  // Fill up with near misses on both sides of the answer so parity gives nothing away
+  let offset = 1;
+  while (options.length < OPTION_COUNT) {
+    const value = answer + (random() < 0.5 ? offset : -offset);
+    if (value > 0 && !has(value)) {
+      options.push({ value, misconception: 'near_miss' });
+    }
+    offset++;
+  }
+
+  return shuffle(options, random);
+};
+
+// Works out which mistake a wrong answer (tapped or typed) most likely was
+export const classifyAnswer = (source: DistractorSource, given: number): Misconception | null => {
+  const answer = getAnswer(source);
+  if (given === answer) return null;
+  const match = getMisconceptionCandidates(source).find(c => c.value === given);
+  if (match) return match.misconception;
+  return Math.abs(given - answer) <= 2 ? 'near_miss' : 'other';
+};
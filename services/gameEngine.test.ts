@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, QuestionType } from '../types';
+import { DEFAULT_REWARD_RULES, getPenalty, sanitizeRewardRules } from './rewardRules';
+import { DEFAULT_TABLE_SELECTION } from './tableSelection';
+import { QUESTION_TYPES } from './questionTypes';
+import { BLITZ_DURATION_MS, QUESTION_TIME_MS } from './gameModes';
+import { getFactKey } from './mastery';
+import { createGameReducer, createInitialState, GameConfig, GameEngineState, generateQuestion, isTimeUp } from './gameEngine';
+import { createEnv } from './testUtils';
+
+const createConfig = (changes: Partial<GameConfig> = {}): GameConfig => ({
+  difficulty: Difficulty.Easy,
+  mode: 'classic',
+  rules: DEFAULT_REWARD_RULES,
+  tableSelection: DEFAULT_TABLE_SELECTION,
+  questionTypes: QUESTION_TYPES,
+  assignment: null,
+  ...changes,
+});
+
+const createState = (config: Partial<GameConfig> = {}, score = 0): GameEngineState =>
+  createInitialState(createConfig(config), score, null, 0);
+
+const DIFFICULTIES = [Difficulty.Easy, Difficulty.Moderate, Difficulty.Hard];
+const SEEDS = Array.from({ length: 100 }, (_, i) => i + 1);
+
+describe('generateQuestion', () => {
+  it('never repeats the previous question', () => {
+    for (const seed of SEEDS) {
+      const env = createEnv(seed);
+      const reduce = createGameReducer(env);
+      let state = createState({ difficulty: DIFFICULTIES[seed % DIFFICULTIES.length] }, seed * 7 % 1000);
+      let previousKey: string | null = null;
+      for (let i = 0; i < 30; i++) {
+        state = reduce(state, { type: 'next_question', mastery: {} });
+        const key = getFactKey(state.question!.num1, state.question!.num2);
+        expect(key).not.toBe(previousKey);
+        previousKey = key;
+        state = reduce(state, { type: 'answer', given: env.random() < 0.7 ? state.question!.answer : 0, inputMode: 'choice' });
+      }
+    }
+  });
+
+  it('never multiplies by 1 once the score reaches 100', () => {
+    for (const seed of SEEDS) {
+      const env = createEnv(seed);
+      const score = 100 + Math.floor(env.random() * 900);
+      for (const difficulty of DIFFICULTIES) {
+        const question = generateQuestion(createState({ difficulty }, score), {}, env);
+        expect(question.num1).not.toBe(1);
+        expect(question.num2).not.toBe(1);
+      }
+    }
+  });
+
+  it('always offers 4 unique positive options, one of them correct', () => {
+    const typeMixes: QuestionType[][] = [...QUESTION_TYPES.map(type => [type]), QUESTION_TYPES];
+    for (const seed of SEEDS) {
+      const env = createEnv(seed);
+      for (const questionTypes of typeMixes) {
+        for (const difficulty of [...DIFFICULTIES, Difficulty.Tables]) {
+          const state = createState({ difficulty, questionTypes, tableSelection: { tables: [1, 2], maxMultiplier: null } }, seed * 13 % 1000);
+          const question = generateQuestion(state, {}, env);
+          const values = question.options.map(o => o.value);
+          expect(values).toHaveLength(4);
+          expect(new Set(values).size).toBe(4);
+          expect(values.every(v => Number.isInteger(v) && v > 0)).toBe(true);
+          expect(values).toContain(question.answer);
+          expect(question.options.filter(o => o.misconception === null).map(o => o.value)).toEqual([question.answer]);
+        }
+      }
+    }
+  });
+
+  it('only asks the picked tables', () => {
+    for (const seed of SEEDS) {
+      const state = createState({ difficulty: Difficulty.Tables, tableSelection: { tables: [7], maxMultiplier: 5 } }, 950);
+      const { num1, num2 } = generateQuestion(state, {}, createEnv(seed));
+      expect(num1 === 7 || num2 === 7).toBe(true);
+      expect(num1 * num2).toBeLessThanOrEqual(35);
+    }
+  });
+
+  it('plays the same game for the same seed', () => {
+    const play = () => {
+      const reduce = createGameReducer(createEnv(42));
+      let state = createState();
+      const asked: string[] = [];
+      for (let i = 0; i < 10; i++) {
+        state = reduce(state, { type: 'next_question', mastery: {} });
+        asked.push(`${state.question!.num1}x${state.question!.num2}:${state.question!.options.map(o => o.value).join(',')}`);
+        state = reduce(state, { type: 'answer', given: state.question!.answer, inputMode: 'choice' });
+      }
+      return asked;
+    };
+    expect(play()).toEqual(play());
+  });
+});
+
+describe('getPenalty', () => {
+  it.each([
+    [0, 2],
+    [699, 2],
+    [700, 4],
+    [799, 4],
+    [800, 5],
+    [929, 5],
+    [930, 8],
+    [999, 8],
+  ])('takes the tier matching a score of %i', (score, penalty) => {
+    expect(getPenalty(score, DEFAULT_REWARD_RULES)).toBe(penalty);
+  });
+
+  it('follows custom tiers entered in any order', () => {
+    const rules = sanitizeRewardRules({ ...DEFAULT_REWARD_RULES, penaltyTiers: [{ minScore: 50, penalty: 3 }, { minScore: 0, penalty: 1 }] });
+    expect(getPenalty(10, rules)).toBe(1);
+    expect(getPenalty(50, rules)).toBe(3);
+  });
+});
+
+describe('createGameReducer', () => {
+  const answerWith = (state: GameEngineState, correct: boolean, env = createEnv(1)) => {
+    const reduce = createGameReducer(env);
+    const asked = reduce(state, { type: 'next_question', mastery: {} });
+    return reduce(asked, { type: 'answer', given: correct ? asked.question!.answer : -1, inputMode: 'choice' });
+  };
+
+  it('scores a correct answer and reports it', () => {
+    const state = answerWith(createState(), true);
+    expect(state.score).toBe(DEFAULT_REWARD_RULES.pointsPerCorrect);
+    expect(state.correctStreak).toBe(1);
+    expect(state.correctAnswersCount).toBe(1);
+    expect(state.lastAnswer).toMatchObject({ correct: true, scoreAfter: state.score, misconception: null });
+  });
+
+  it('applies the penalty tier for a wrong answer without going below zero', () => {
+    expect(answerWith(createState({}, 1), false).score).toBe(0);
+    expect(answerWith(createState({}, 800), false).score).toBe(795);
+    expect(answerWith(createState({}, 800), false).wrongStreak).toBe(1);
+  });
+
+  it('ignores a second answer to the same question', () => {
+    const answered = answerWith(createState(), true);
+    const reduce = createGameReducer(createEnv(2));
+    expect(reduce(answered, { type: 'answer', given: answered.question!.answer, inputMode: 'choice' })).toBe(answered);
+  });
+
+  it('eases off after a run of wrong answers and speeds up after quick right ones', () => {
+    let state = createState({ difficulty: Difficulty.Hard });
+    const start = state.adaptive.level;
+    for (let i = 0; i < 3; i++) {
+      state = answerWith(state, false);
+    }
+    expect(state.adaptive.level).toBeLessThan(start);
+    expect(state.adaptive.recent).toHaveLength(3);
+
+    let easy = createState();
+    for (let i = 0; i < 10; i++) {
+      easy = answerWith(easy, true);
+    }
+    expect(easy.adaptive.level).toBeGreaterThan(0);
+  });
+
+  it('asks typed questions from the parents\' score threshold on', () => {
+    const reduce = createGameReducer(createEnv(5));
+    const typedModeThreshold = DEFAULT_REWARD_RULES.typedModeThreshold;
+    expect(reduce(createState({}, typedModeThreshold), { type: 'next_question', mastery: {} }).question!.typed).toBe(true);
+    expect(reduce(createState({}, typedModeThreshold - 1), { type: 'next_question', mastery: {} }).question!.typed).toBe(false);
+  });
+
+  it.each<[GameMode, boolean]>([['blitz', true], ['classic', false]])('counts down the %s clock', (mode, counts) => {
+    const reduce = createGameReducer(createEnv(3));
+    let state = reduce(createState({ mode }), { type: 'next_question', mastery: {} });
+    state = reduce(state, { type: 'tick', elapsedMs: BLITZ_DURATION_MS });
+    expect(isTimeUp(state)).toBe(counts);
+  });
+
+  it('treats a beat-the-clock timeout as a wrong answer', () => {
+    const reduce = createGameReducer(createEnv(4));
+    let state = reduce(createState({ mode: 'beat_the_clock' }, 100), { type: 'next_question', mastery: {} });
+    state = reduce(state, { type: 'tick', elapsedMs: QUESTION_TIME_MS });
+    expect(state.isAnswered).toBe(true);
+    expect(state.score).toBe(98);
+    expect(state.lastAnswer).toMatchObject({ given: null, correct: false });
+  });
+});
@@ -0,0 +1,256 @@
+import { AdaptiveState, AnswerEvent, Assignment, Difficulty, FactPair, GameMode, GameProgress, InputMode, MasteryMap, Question, QuestionType, RewardRules, TableSelection } from '../types';
+import { getFactKey, MAX_FACTOR, pickFact } from './mastery';
+import { getPenalty, hasReachedMilestone, isTypedMode } from './rewardRules';
+import { createAdaptiveState, getFactorRanges, getTypedShare, updateAdaptiveState } from './adaptiveDifficulty';
+import { BLITZ_DURATION_MS, getSpeedBonus, QUESTION_TIME_MS } from './gameModes';
+import { isValidTableSelection } from './tableSelection';
+import { getAnswer, pickQuestionType } from './questionTypes';
+import { buildOptions, classifyAnswer } from './distractors';
+
+// ============================================================================
+// GAME ENGINE (framework-free rules and state machine)
+// ============================================================================
+// Everything that decides what is asked and how answers are scored lives
+// here. Randomness and time come in through EngineEnv, so the same seed and
+// clock always play out the same game.
+
+export interface EngineEnv {
+  random: () => number;
+  now: () => number;
+}
+
+export const browserEnv: EngineEnv = {
+  random: Math.random,
+  now: Date.now,
+};
+
+// Settings fixed for the length of a game
+export interface GameConfig {
+  difficulty: Difficulty;
+  mode: GameMode;
+  rules: RewardRules;
+  tableSelection: TableSelection;
+  questionTypes: QuestionType[];
+  // Homework: a set number of questions with the teacher's choice of answers
+  assignment: Assignment | null;
+}
+
+export interface GameEngineState {
+  config: GameConfig;
+  score: number;
+  correctStreak: number;
+  wrongStreak: number;
+  correctAnswersCount: number;
+  // Only counted for homework, so it isn't saved with the rest of the progress
+  questionsAnswered: number;
+  adaptive: AdaptiveState;
+  lastQuestion: FactPair | null;
+  question: Question | null;
+  questionShownAt: number;
+  isAnswered: boolean;
+  // The wrong option picked for the current question, if any
+  incorrectSelection: number | null;
+  sessionStartedAt: number;
+  // Blitz countdown for the whole game
+  timeLeftMs: number;
+  // Beat-the-clock countdown for the current question
+  questionTimeLeftMs: number;
+  speedBonus: number;
+  // The answer just given, for mastery tracking and the answer log
+  lastAnswer: AnswerEvent | null;
+}
+
+export type GameAction =
+  | { type: 'next_question'; mastery: MasteryMap }
+  | { type: 'answer'; given: number | null; inputMode: InputMode }
+  | { type: 'tick'; elapsedMs: number };
+
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+
+// Every ordered pair with one factor from `group` and the other from `others`
+const pairsWith = (group: number[], others: number[]): FactPair[] => {
+  const pairs = new Map<string, FactPair>();
+  for (const a of group) {
+    for (const b of others) {
+      pairs.set(`${a},${b}`, { num1: a, num2: b });
+      pairs.set(`${b},${a}`, { num1: b, num2: a });
+    }
+  }
+  return Array.from(pairs.values());
+};
+
+// The facts the adaptive level may ask. Which one is asked is decided by mastery.
+export const getCandidateFacts = (difficulty: Difficulty, tableSelection: TableSelection, level: number): FactPair[] => {
+  // The player picked specific tables, so nothing else overrides them
+  if (difficulty === Difficulty.Tables && isValidTableSelection(tableSelection)) {
+    return pairsWith(tableSelection.tables, range(1, tableSelection.maxMultiplier ?? MAX_FACTOR));
+  }
+  const { focus, other } = getFactorRanges(level);
+  return pairsWith(range(focus.min, focus.max), range(other.min, other.max));
+};
+
+// A teacher's choice wins. Otherwise parents can make every question typed
+// from a score, and before that the adaptive level mixes them in.
+const isTypedQuestion = ({ config, score, adaptive }: GameEngineState, env: EngineEnv): boolean => {
+  const inputMode = config.assignment?.inputMode ?? 'adaptive';
+  if (inputMode !== 'adaptive') return inputMode === 'typed';
+  return isTypedMode(score, config.rules) || env.random() < getTypedShare(adaptive.level);
+};
+
+export const generateQuestion = (state: GameEngineState, mastery: MasteryMap, env: EngineEnv): Question => {
+  const { config, score, adaptive, lastQuestion } = state;
+  const { rules } = config;
+  let candidates = getCandidateFacts(config.difficulty, config.tableSelection, adaptive.level);
+
+  // The rules below only drop facts if something is left, so a narrow
+  // table selection (say, just the 1s) still produces questions.
+  const keepIfAny = (filtered: FactPair[]) => {
+    if (filtered.length > 0) {
+      candidates = filtered;
+    }
+  };
+
+  // No multiplication by 1 past the first tenth of the target
+  if (hasReachedMilestone(score, rules, 'noTimesOne')) {
+    keepIfAny(candidates.filter(c => c.num1 !== 1 && c.num2 !== 1));
+  }
+
+  // Never ask the same fact twice in a row (in either order)
+  if (lastQuestion) {
+    keepIfAny(candidates.filter(c => getFactKey(c.num1, c.num2) !== getFactKey(lastQuestion.num1, lastQuestion.num2)));
+  }
+
+  // Weak and overdue facts come up more often
+  const { num1, num2 } = pickFact(candidates, mastery, env.now(), env.random);
+  const type = pickQuestionType(config.questionTypes, env.random);
+  const previousAnswer = state.question?.answer ?? null;
+
+  return {
+    num1,
+    num2,
+    type,
+    answer: getAnswer({ num1, num2, type }),
+    // Wrong options are modeled on common mistakes, tagged for the parent dashboard
+    options: buildOptions({ num1, num2, type, previousAnswer }, env.random),
+    previousAnswer,
+    typed: isTypedQuestion(state, env),
+  };
+};
+
+export const createInitialState = (config: GameConfig, score: number, savedProgress: GameProgress | null, now: number): GameEngineState => ({
+  config,
+  score,
+  correctStreak: savedProgress?.correctStreak ?? 0,
+  wrongStreak: savedProgress?.wrongStreak ?? 0,
+  correctAnswersCount: savedProgress?.correctAnswersCount ?? 0,
+  questionsAnswered: 0,
+  adaptive: savedProgress?.adaptive ?? createAdaptiveState(config.difficulty),
+  lastQuestion: savedProgress?.lastQuestion ?? null,
+  question: null,
+  questionShownAt: now,
+  isAnswered: false,
+  incorrectSelection: null,
+  sessionStartedAt: savedProgress?.sessionStartedAt || now,
+  timeLeftMs: savedProgress?.timeLeftMs ?? BLITZ_DURATION_MS,
+  questionTimeLeftMs: QUESTION_TIME_MS,
+  speedBonus: 0,
+  lastAnswer: null,
+});
+
+// What is saved so a game survives reloads and service-worker updates
+export const getProgress = (state: GameEngineState, introDismissed: boolean): GameProgress => ({
+  correctStreak: state.correctStreak,
+  wrongStreak: state.wrongStreak,
+  correctAnswersCount: state.correctAnswersCount,
+  adaptive: state.adaptive,
+  lastQuestion: state.lastQuestion,
+  introDismissed,
+  sessionStartedAt: state.sessionStartedAt,
+  timeLeftMs: state.timeLeftMs,
+});
+
+// `given` is null when the question timed out
+const answerQuestion = (state: GameEngineState, given: number | null, inputMode: InputMode, env: EngineEnv): GameEngineState => {
+  const { question, config: { rules, mode } } = state;
+  if (!question || state.isAnswered) return state;
+
+  const correct = given === question.answer;
+  const bonus = correct && mode === 'beat_the_clock' ? getSpeedBonus(state.questionTimeLeftMs, rules) : 0;
+  const score = correct
+    ? state.score + rules.pointsPerCorrect + bonus
+    : Math.max(0, state.score - getPenalty(state.score, rules));
+  const responseMs = env.now() - state.questionShownAt;
+
+  return {
+    ...state,
+    score,
+    correctStreak: correct ? state.correctStreak + 1 : 0,
+    wrongStreak: correct ? 0 : state.wrongStreak + 1,
+    correctAnswersCount: state.correctAnswersCount + (correct ? 1 : 0),
+    questionsAnswered: state.questionsAnswered + 1,
+    adaptive: updateAdaptiveState(state.adaptive, { correct, responseMs }),
+    isAnswered: true,
+    incorrectSelection: correct ? null : given,
+    speedBonus: bonus,
+    lastAnswer: {
+      num1: question.num1,
+      num2: question.num2,
+      type: question.type,
+      given,
+      inputMode,
+      correct,
+      responseMs,
+      scoreAfter: score,
+      misconception: given === null ? null : classifyAnswer(question, given),
+    },
+  };
+};
+
+// Timed modes count down only while a question is waiting for an answer
+const tick = (state: GameEngineState, elapsedMs: number, env: EngineEnv): GameEngineState => {
+  const { mode, rules } = state.config;
+  if (mode === 'classic' || !state.question || state.isAnswered) return state;
+
+  if (mode === 'blitz') {
+    return { ...state, timeLeftMs: Math.max(0, state.timeLeftMs - elapsedMs) };
+  }
+
+  const questionTimeLeftMs = Math.max(0, state.questionTimeLeftMs - elapsedMs);
+  if (questionTimeLeftMs > 0) {
+    return { ...state, questionTimeLeftMs };
+  }
+  // Beat the clock: running out of time counts as a wrong answer
+  return answerQuestion({ ...state, questionTimeLeftMs }, null, state.question.typed ? 'typed' : 'choice', env);
+};
+
+export const createGameReducer = (env: EngineEnv) => (state: GameEngineState, action: GameAction): GameEngineState => {
+  switch (action.type) {
+    case 'next_question': {
+      const question = generateQuestion(state, action.mastery, env);
+      return {
+        ...state,
+        question,
+        lastQuestion: { num1: question.num1, num2: question.num2 },
+        questionShownAt: env.now(),
+        isAnswered: false,
+        incorrectSelection: null,
+        questionTimeLeftMs: QUESTION_TIME_MS,
+        speedBonus: 0,
+      };
+    }
+    case 'answer':
+      return answerQuestion(state, action.given, action.inputMode, env);
+    case 'tick':
+      return tick(state, action.elapsedMs, env);
+    default:
+      return state;
+  }
+};
+
+export const isTimeUp = (state: GameEngineState): boolean =>
+  state.config.mode === 'blitz' && state.timeLeftMs <= 0;
+
+// Homework ends after its last question has been answered
+export const isAssignmentDone = (state: GameEngineState): boolean =>
+  !!state.config.assignment && state.questionsAnswered >= state.config.assignment.questionCount;
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { isGameMode } from './gameModes';
+
+describe('isGameMode', () => {
+  it('accepts only the game modes themselves', () => {
+    expect(isGameMode('blitz')).toBe(true);
+    expect(isGameMode('marathon')).toBe(false);
+    expect(isGameMode(undefined)).toBe(false);
+  });
+
+  it('ignores keys every object inherits', () => {
+    expect(isGameMode('toString')).toBe(false);
+    expect(isGameMode('constructor')).toBe(false);
+    expect(isGameMode('__proto__')).toBe(false);
+  });
+});
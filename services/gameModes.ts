@@ -0,0 +1,58 @@
+import { GameMode, PersonalBests, RewardRules } from '../types';
+
+// ============================================================================
+// GAME MODES
+// ============================================================================
+
+// Names and descriptions live in the locale catalogs
+export interface GameModeInfo {
+  id: GameMode;
+  higherIsBetter: boolean;
+}
+
+export const GAME_MODES: Record<GameMode, GameModeInfo> = {
+  classic: {
+    id: 'classic',
+    higherIsBetter: false,
+  },
+  blitz: {
+    id: 'blitz',
+    higherIsBetter: true,
+  },
+  beat_the_clock: {
+    id: 'beat_the_clock',
+    higherIsBetter: false,
+  },
+};
+
+// The outcome shown on the end-of-game screens
+export interface RoundResult {
+  mode: GameMode;
+  value: number;
+  isNewRecord: boolean;
+}
+
+export const BLITZ_DURATION_MS = 60 * 1000;
+export const QUESTION_TIME_MS = 10 * 1000;
+export const TIMER_TICK_MS = 100;
+
+export const isGameMode = (value: unknown): value is GameMode =>
+  typeof value === 'string' && Object.hasOwn(GAME_MODES, value);
+
+// Up to one extra answer's worth of points, shrinking as the question timer runs down
+export const getSpeedBonus = (timeLeftMs: number, rules: RewardRules): number =>
+  Math.round(rules.pointsPerCorrect * Math.min(1, Math.max(0, timeLeftMs / QUESTION_TIME_MS)));
+
+export const isNewPersonalBest = (bests: PersonalBests, mode: GameMode, value: number): boolean => {
+  const best = bests[mode];
+  if (best === undefined) return true;
+  return GAME_MODES[mode].higherIsBetter ? value > best : value < best;
+};
+
+export const formatPersonalBest = (mode: GameMode, value: number): string => {
+  if (mode === 'blitz') {
+    return `${value}`;
+  }
+  const totalSeconds = Math.round(value / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
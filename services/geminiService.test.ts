@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QuestionType } from '../types';
+import { LANGUAGES } from './i18n';
+import { QUESTION_TYPES } from './questionTypes';
+import { THEME_IDS } from './themes';
+import { createLocalWordProblem, generateWordProblem, isValidWordProblem, parseWordProblem, WordProblemClient } from './geminiService';
+
+const SEVEN_EIGHTS = { num1: 7, num2: 8, type: 'multiplication' as QuestionType };
+
+// Answers every request with `reply`, or fails when given an Error
+const stubClient = (reply: string | Error): WordProblemClient & { calls: number } => {
+  const client = {
+    calls: 0,
+    models: {
+      generateContent: vi.fn(async () => {
+        client.calls++;
+        if (reply instanceof Error) throw reply;
+        return { text: reply };
+      }),
+    },
+  };
+  return client;
+};
+
+const reply = (problem: string, answer: number) => JSON.stringify({ problem, answer });
+
+describe('generateWordProblem', () => {
+  it("uses Gemini's story when it checks out", async () => {
+    const client = stubClient(reply('Each of 7 players collects 8 coins. How many coins in all?', 56));
+    expect(await generateWordProblem(SEVEN_EIGHTS, 'English', 'robux', client)).toEqual({
+      text: 'Each of 7 players collects 8 coins. How many coins in all?',
+      source: 'gemini',
+    });
+    expect(client.calls).toBe(1);
+  });
+
+  it('falls back to a local story without a client', async () => {
+    const problem = await generateWordProblem(SEVEN_EIGHTS, 'English', 'robux', null);
+    expect(problem).toEqual({ text: createLocalWordProblem(SEVEN_EIGHTS, 'English', 'robux'), source: 'local' });
+  });
+
+  it('sets the story in the active theme', async () => {
+    const client = stubClient(reply('Each of 7 astronauts collects 8 stars. How many stars in all?', 56));
+    await generateWordProblem(SEVEN_EIGHTS, 'English', 'space', client);
+    const [[params]] = vi.mocked(client.models.generateContent).mock.calls;
+    expect(params.contents).toContain('space adventure');
+    expect(params.contents).not.toContain('Roblox');
+    const sixEights = { ...SEVEN_EIGHTS, num1: 6 };
+    expect(createLocalWordProblem(sixEights, 'English', 'space')).toContain('astronauts');
+    expect(createLocalWordProblem(sixEights, 'English', 'plain')).not.toContain('Roblox');
+  });
+
+  it('falls back when the request fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const problem = await generateWordProblem(SEVEN_EIGHTS, 'Hebrew', 'robux', stubClient(new Error('quota')));
+    expect(problem.source).toBe('local');
+  });
+
+  it('falls back when offline without calling Gemini', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    const client = stubClient(reply('Each of 7 players collects 8 coins. How many coins in all?', 56));
+    expect((await generateWordProblem(SEVEN_EIGHTS, 'English', 'robux', client)).source).toBe('local');
+    expect(client.calls).toBe(0);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('parseWordProblem', () => {
+  it('rejects replies that break the schema or the question', () => {
+    expect(parseWordProblem('not json', SEVEN_EIGHTS)).toBeNull();
+    expect(parseWordProblem(undefined, SEVEN_EIGHTS)).toBeNull();
+    expect(parseWordProblem(JSON.stringify({ problem: 'Each of 7 players collects 8 coins.' }), SEVEN_EIGHTS)).toBeNull();
+    // Wrong answer
+    expect(parseWordProblem(reply('Each of 7 players collects 8 coins. How many?', 54), SEVEN_EIGHTS)).toBeNull();
+    // Missing one of the numbers
+    expect(parseWordProblem(reply('Each of 7 players collects some coins. How many?', 56), SEVEN_EIGHTS)).toBeNull();
+    // Gives the answer away
+    expect(parseWordProblem(reply('7 players collect 8 coins each, 56 in all.', 56), SEVEN_EIGHTS)).toBeNull();
+    expect(parseWordProblem(reply('x'.repeat(400) + ' 7 8', 56), SEVEN_EIGHTS)).toBeNull();
+  });
+
+  it('does not mistake a number inside a bigger one', () => {
+    expect(isValidWordProblem('Each of 17 players collects 8 coins.', SEVEN_EIGHTS)).toBe(false);
+  });
+});
+
+it('has a valid local story for every fact, type, language and theme', () => {
+  for (const language of LANGUAGES) {
+    for (const theme of THEME_IDS) {
+      for (const type of QUESTION_TYPES) {
+        for (let num1 = 1; num1 <= 12; num1++) {
+          for (let num2 = 1; num2 <= 12; num2++) {
+            const question = { num1, num2, type };
+            const text = createLocalWordProblem(question, language, theme);
+            expect(isValidWordProblem(text, question), `${language} ${theme} ${type} ${num1}x${num2}: ${text}`).toBe(true);
+          }
+        }
+      }
+    }
+  }
+});
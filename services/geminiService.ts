@@ -0,0 +1,171 @@
+import { GenerateContentParameters, GoogleGenAI, Type } from '@google/genai';
+import { Language, ThemeId } from '../types';
+import { getLocale } from './i18n';
+import { getAnswer, QuestionParts } from './questionTypes';
+
+// ============================================================================
+// WORD PROBLEMS (Gemini, with a local fallback)
+// ============================================================================
+// Gemini writes a short story around the current fact. Anything that goes
+// wrong (no API key, offline, a slow or malformed reply) falls back to the
+// catalog's templates, so a story is always shown.
+
+export interface WordProblem {
+  text: string;
+  source: 'gemini' | 'local';
+}
+
+// The part of the Gemini client this service uses, so tests can stub it
+export interface WordProblemClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
+
+const MODEL = 'gemini-2.5-flash';
+const REQUEST_TIMEOUT_MS = 8000;
+const MAX_PROBLEM_LENGTH = 300;
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    problem: { type: Type.STRING, description: 'The story problem, at most two short sentences.' },
+    answer: { type: Type.INTEGER, description: 'The number the question asks for.' },
+  },
+  required: ['problem', 'answer'],
+  propertyOrdering: ['problem', 'answer'],
+};
+
+// The numbers a story has to mention; the answer is what the child works out
+export const getGivenNumbers = ({ num1, num2, type }: QuestionParts): number[] => {
+  const product = num1 * num2;
+  switch (type) {
+    case 'division':
+    case 'missing_first':
+      return [product, num2];
+    case 'missing_second':
+      return [num1, product];
+    case 'multiplication':
+    default:
+      return [num1, num2];
+  }
+};
+
+const mentions = (text: string, value: number): boolean =>
+  new RegExp(`(^|\\D)${value}(\\D|$)`).test(text);
+
+// A story is usable when it states the given numbers and doesn't give the answer away
+export const isValidWordProblem = (text: string, question: QuestionParts): boolean => {
+  const given = getGivenNumbers(question);
+  const answer = getAnswer(question);
+  return text.length > 0
+    && text.length <= MAX_PROBLEM_LENGTH
+    && given.every(value => mentions(text, value))
+    && (given.includes(answer) || !mentions(text, answer));
+};
+
+// Checks Gemini's JSON against the schema and the question; null when unusable
+export const parseWordProblem = (json: string | undefined, question: QuestionParts): string | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json ?? '');
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+  const { problem, answer } = data as Record<string, unknown>;
+  if (typeof problem !== 'string' || typeof answer !== 'number' || answer !== getAnswer(question)) {
+    return null;
+  }
+  const text = problem.trim();
+  return isValidWordProblem(text, question) ? text : null;
+};
+
+// Always the same story for the same question, so replays don't change it
+export const createLocalWordProblem = (question: QuestionParts, language: Language, theme: ThemeId): string => {
+  const { num1, num2, type } = question;
+  const templates = getLocale(language).messages.wordProblems[type];
+  return templates[(num1 + num2) % templates.length](num1, num2, num1 * num2, theme);
+};
+
+// Where Gemini sets the story, matching the player's theme
+const STORY_SETTINGS: Record<ThemeId, string> = {
+  robux: 'a friendly Roblox-style game world (players, coins, blocks, gems, pets)',
+  space: 'a friendly space adventure (astronauts, rockets, planets, stars)',
+  animals: 'a friendly animal world (puppies, kittens, bones, treats)',
+  plain: 'everyday life (children, stickers, books, toys)',
+};
+
+const buildPrompt = (question: QuestionParts, language: Language, theme: ThemeId): string => {
+  const [first, second] = getGivenNumbers(question);
+  const task = {
+    multiplication: `${first} groups of ${second}, asking for the total`,
+    division: `${first} things shared into groups of ${second} (or between ${second}), asking how many in each part`,
+    missing_second: `${first} equal groups making ${second} in total, asking how many are in each group`,
+    missing_first: `groups of ${second} making ${first} in total, asking how many groups there are`,
+  }[question.type];
+  return [
+    `Write a math story problem for a 7 to 10 year old, in ${language}.`,
+    `It describes ${task}.`,
+    `Set it in ${STORY_SETTINGS[theme]}.`,
+    `Use at most two short sentences and write the numbers ${first} and ${second} as digits.`,
+    'Do not mention the answer or any other numbers.',
+  ].join(' ');
+};
+
+let defaultClient: WordProblemClient | null | undefined;
+
+// Built on first use from the key Vite injects; null without a key
+const getDefaultClient = (): WordProblemClient | null => {
+  if (defaultClient === undefined) {
+    const apiKey = process.env.API_KEY;
+    defaultClient = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  }
+  return defaultClient;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No reply after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+
+export const generateWordProblem = async (
+  question: QuestionParts,
+  language: Language,
+  theme: ThemeId,
+  client: WordProblemClient | null = getDefaultClient(),
+): Promise<WordProblem> => {
+  const local: WordProblem = { text: createLocalWordProblem(question, language, theme), source: 'local' };
+  const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  if (!client || isOffline) return local;
+
+  try {
+    const response = await withTimeout(client.models.generateContent({
+      model: MODEL,
+      contents: buildPrompt(question, language, theme),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA,
+        temperature: 0.9,
+      },
+    }), REQUEST_TIMEOUT_MS);
+    const text = parseWordProblem(response.text, question);
+    if (text) return { text, source: 'gemini' };
+    console.warn('Gemini returned an unusable word problem:', response.text);
+  } catch (err) {
+    console.warn('Could not get a word problem from Gemini.', err);
+  }
+  return local;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Assignment } from '../types';
+import {
+  createAssignmentId,
+  createHomeworkResult,
+  decodeAssignment,
+  decodeResultCode,
+  encodeAssignment,
+  encodeResultCode,
+  getAssignmentLink,
+  parseAssignmentHash,
+  sanitizeAssignment,
+} from './homework';
+
+const makeAssignment = (changes: Partial<Assignment> = {}): Assignment => ({
+  id: 'k3f9zq',
+  title: '6s and 9s',
+  tables: [6, 9],
+  maxMultiplier: null,
+  questionCount: 40,
+  questionTypes: ['multiplication'],
+  inputMode: 'typed',
+  ...changes,
+});
+
+describe('assignments', () => {
+  it('round-trips through a link, even with dots and percent signs in the title', () => {
+    const assignment = makeAssignment({ title: 'Week 3. 100% effort', maxMultiplier: 10, questionTypes: ['division', 'missing_first'] });
+    const link = getAssignmentLink(assignment, 'https://example.com/play/?lang=en#old');
+
+    expect(link.startsWith('https://example.com/play/?lang=en#assignment=1.k3f9zq.6-9.10.40.df.t.')).toBe(true);
+    expect(parseAssignmentHash(new URL(link).hash)).toEqual(assignment);
+  });
+
+  it('ignores hashes without a usable assignment', () => {
+    expect(parseAssignmentHash('')).toBeNull();
+    expect(parseAssignmentHash('#other=1')).toBeNull();
+    expect(parseAssignmentHash('#assignment=2.k3f9zq.6-9..40.m.t.x')).toBeNull();
+    // No tables
+    expect(decodeAssignment('1.k3f9zq...40.m.t.x')).toBeNull();
+    // Broken escape in the title
+    expect(decodeAssignment('1.k3f9zq.6..40.m.t.%E0')).toBeNull();
+  });
+
+  it('keeps question counts and titles within bounds', () => {
+    const assignment = sanitizeAssignment({ ...makeAssignment(), questionCount: 500, title: 'x'.repeat(60), inputMode: 'voice' });
+    expect(assignment).toMatchObject({ questionCount: 100, title: 'x'.repeat(40), inputMode: 'adaptive' });
+    expect(sanitizeAssignment({ ...makeAssignment(), questionTypes: [] })).toBeNull();
+    expect(sanitizeAssignment({ ...makeAssignment(), id: 'short' })).toBeNull();
+  });
+
+  it('creates ids the link accepts', () => {
+    let seed = 0;
+    const id = createAssignmentId(() => (seed++ * 0.37) % 1);
+    expect(decodeAssignment(encodeAssignment(makeAssignment({ id })))?.id).toBe(id);
+  });
+});
+
+describe('result codes', () => {
+  const finishedAt = Date.UTC(2026, 2, 14, 9, 26, 53);
+  const result = createHomeworkResult(makeAssignment(), 'Zoë | Class 3', 37, 412_400, finishedAt);
+
+  it('round-trips a result, rounded to the minute', () => {
+    expect(result).toMatchObject({ seconds: 412, finishedAt: Date.UTC(2026, 2, 14, 9, 26) });
+    expect(decodeResultCode(encodeResultCode(result))).toEqual({ ok: true, result });
+  });
+
+  it('tolerates whitespace picked up while copying', () => {
+    const code = encodeResultCode(result);
+    const spaced = `  ${code.slice(0, 10)}\n${code.slice(10)} `;
+    expect(decodeResultCode(spaced)).toEqual({ ok: true, result });
+  });
+
+  it('spots an edited score', () => {
+    const code = encodeResultCode(result);
+    const [encoded, checksum] = code.split('.');
+    const payload = new TextDecoder().decode(Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)));
+    const edited = btoa(String.fromCharCode(...new TextEncoder().encode(payload.replace('|37|', '|40|'))))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    expect(decodeResultCode(`${edited}.${checksum}`)).toEqual({ ok: false, error: 'tampered' });
+  });
+
+  it('rejects anything that is not a code', () => {
+    expect(decodeResultCode('')).toEqual({ ok: false, error: 'invalid_code' });
+    expect(decodeResultCode('hello')).toEqual({ ok: false, error: 'invalid_code' });
+    expect(decodeResultCode('!!!.abc')).toEqual({ ok: false, error: 'invalid_code' });
+  });
+});
@@ -0,0 +1,209 @@
+import { Assignment, AssignmentInputMode, HomeworkResult, QuestionType } from '../types';
+import { QUESTION_TYPES } from './questionTypes';
+import { sanitizeTableSelection } from './tableSelection';
+
+// ============================================================================
+// HOMEWORK (assignments in links, results in codes)
+// ============================================================================
+// There is no server: the assignment travels in the link's hash, e.g.
+//   #assignment=1.k3f9zq.6-9..40.m.t.6s%20and%209s
+// (version . id . tables . multiply up to, empty for 12 . questions . types . answers . title)
+// and the student hands back a result code that the teacher checks on their
+// own device. The code carries a checksum over everything in it, so an edited
+// score shows up. That makes it tamper-evident, not forgery-proof: anyone who
+// reads this file can work out a matching checksum.
+
+export const ASSIGNMENT_HASH_KEY = 'assignment';
+const ASSIGNMENT_VERSION = 1;
+const RESULT_VERSION = 1;
+
+export const QUESTION_COUNT_LIMITS = { min: 5, max: 100 };
+export const DEFAULT_QUESTION_COUNT = 20;
+export const ASSIGNMENT_INPUT_MODES: AssignmentInputMode[] = ['adaptive', 'choice', 'typed'];
+export const MAX_TITLE_LENGTH = 40;
+
+const ID_LENGTH = 6;
+// No 0/o or 1/l, so an id read aloud or copied by hand survives
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+const TYPE_CODES: Record<QuestionType, string> = {
+  multiplication: 'm',
+  division: 'd',
+  missing_second: 's',
+  missing_first: 'f',
+};
+
+const INPUT_MODE_CODES: Record<AssignmentInputMode, string> = {
+  adaptive: 'a',
+  choice: 'c',
+  typed: 't',
+};
+
+export const createAssignmentId = (random: () => number = Math.random): string =>
+  Array.from({ length: ID_LENGTH }, () => ID_ALPHABET[Math.floor(random() * ID_ALPHABET.length)]).join('');
+
+const isAssignmentId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length === ID_LENGTH && [...value].every(c => ID_ALPHABET.includes(c));
+
+// Accepts anything (form input, a decoded link) and returns a playable assignment, or null
+export const sanitizeAssignment = (value: unknown): Assignment | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  const { tables, maxMultiplier } = sanitizeTableSelection(data);
+  const questionTypes = Array.isArray(data.questionTypes) ? QUESTION_TYPES.filter(type => (data.questionTypes as unknown[]).includes(type)) : [];
+  const { min, max } = QUESTION_COUNT_LIMITS;
+  if (!isAssignmentId(data.id) || tables.length === 0 || questionTypes.length === 0 || !Number.isInteger(data.questionCount)) {
+    return null;
+  }
+  return {
+    id: data.id,
+    title: typeof data.title === 'string' ? data.title.trim().slice(0, MAX_TITLE_LENGTH) : '',
+    tables,
+    maxMultiplier,
+    questionCount: Math.min(max, Math.max(min, data.questionCount as number)),
+    questionTypes,
+    inputMode: ASSIGNMENT_INPUT_MODES.includes(data.inputMode as AssignmentInputMode) ? data.inputMode as AssignmentInputMode : 'adaptive',
+  };
+};
+
+export const encodeAssignment = (assignment: Assignment): string => [
+  ASSIGNMENT_VERSION,
+  assignment.id,
+  assignment.tables.join('-'),
+  assignment.maxMultiplier ?? '',
+  assignment.questionCount,
+  assignment.questionTypes.map(type => TYPE_CODES[type]).join(''),
+  INPUT_MODE_CODES[assignment.inputMode],
+  encodeURIComponent(assignment.title),
+].join('.');
+
+const findKey = <T extends string>(codes: Record<T, string>, code: string): T | undefined =>
+  (Object.keys(codes) as T[]).find(key => codes[key] === code);
+
+export const decodeAssignment = (text: string): Assignment | null => {
+  const [version, id, tables, maxMultiplier, questionCount, types, inputMode, ...title] = text.split('.');
+  if (Number(version) !== ASSIGNMENT_VERSION || title.length === 0) return null;
+  let decodedTitle: string;
+  try {
+    // The title may itself contain dots
+    decodedTitle = decodeURIComponent(title.join('.'));
+  } catch {
+    return null;
+  }
+  return sanitizeAssignment({
+    id,
+    title: decodedTitle,
+    tables: tables.split('-').map(Number),
+    maxMultiplier: maxMultiplier ? Number(maxMultiplier) : null,
+    questionCount: Number(questionCount),
+    questionTypes: [...types].map(code => findKey(TYPE_CODES, code)),
+    inputMode: findKey(INPUT_MODE_CODES, inputMode),
+  });
+};
+
+// The page's own address with the assignment in the hash
+export const getAssignmentLink = (assignment: Assignment, pageUrl: string): string =>
+  `${pageUrl.split('#')[0]}#${ASSIGNMENT_HASH_KEY}=${encodeAssignment(assignment)}`;
+
+// Read from the raw hash: URLSearchParams would decode the title a second time
+export const parseAssignmentHash = (hash: string): Assignment | null => {
+  const match = hash.match(new RegExp(`[#&]${ASSIGNMENT_HASH_KEY}=([^&]*)`));
+  return match ? decodeAssignment(match[1]) : null;
+};
+
+// ----------------------------------------------------------------------------
+// Result codes
+// ----------------------------------------------------------------------------
+
+export type ResultCodeError = 'invalid_code' | 'tampered';
+
+export type ResultCodeCheck =
+  | { ok: true; result: HomeworkResult }
+  | { ok: false; error: ResultCodeError };
+
+// cyrb53: a fast 53-bit string hash. Not cryptographic, just hard to fix up by hand.
+const hash53 = (text: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+const getChecksum = (payload: string): string =>
+  hash53(`robux-homework|${payload}`).toString(36).padStart(11, '0');
+
+const toBase64Url = (text: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string): string => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const MINUTE = 60 * 1000;
+
+export const createHomeworkResult = (assignment: Assignment, name: string, correct: number, elapsedMs: number, finishedAt: number): HomeworkResult => ({
+  assignmentId: assignment.id,
+  name,
+  correct,
+  total: assignment.questionCount,
+  seconds: Math.max(0, Math.round(elapsedMs / 1000)),
+  // Codes keep minutes only, so round here and a result survives a round trip
+  finishedAt: Math.floor(finishedAt / MINUTE) * MINUTE,
+});
+
+export const encodeResultCode = (result: HomeworkResult): string => {
+  const payload = [
+    RESULT_VERSION,
+    result.assignmentId,
+    result.correct,
+    result.total,
+    result.seconds,
+    Math.floor(result.finishedAt / MINUTE).toString(36),
+    // Last, since a name may contain the separator
+    result.name,
+  ].join('|');
+  return `${toBase64Url(payload)}.${getChecksum(payload)}`;
+};
+
+const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+export const decodeResultCode = (code: string): ResultCodeCheck => {
+  // Codes are often copied with stray spaces or line breaks
+  const [encoded, checksum, ...rest] = code.replace(/\s+/g, '').split('.');
+  if (!encoded || !checksum || rest.length > 0) return { ok: false, error: 'invalid_code' };
+
+  let payload: string;
+  try {
+    payload = fromBase64Url(encoded);
+  } catch {
+    return { ok: false, error: 'invalid_code' };
+  }
+  const [version, assignmentId, correct, total, seconds, finishedMinutes, ...name] = payload.split('|');
+  if (Number(version) !== RESULT_VERSION || name.length === 0) return { ok: false, error: 'invalid_code' };
+  if (getChecksum(payload) !== checksum) return { ok: false, error: 'tampered' };
+
+  const result: HomeworkResult = {
+    assignmentId,
+    name: name.join('|'),
+    correct: Number(correct),
+    total: Number(total),
+    seconds: Number(seconds),
+    finishedAt: parseInt(finishedMinutes, 36) * MINUTE,
+  };
+  if (!isAssignmentId(assignmentId) || ![result.correct, result.total, result.seconds, result.finishedAt].every(isCount) || result.correct > result.total) {
+    return { ok: false, error: 'invalid_code' };
+  }
+  return { ok: true, result };
+};
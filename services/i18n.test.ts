@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES } from '../locales';
+import { DEFAULT_LANGUAGE, getLocale, isLanguage, LANGUAGES } from './i18n';
+import { getQuestionText } from './questionTypes';
+
+describe('locale catalogs', () => {
+  it('have unique ids', () => {
+    expect(new Set(LANGUAGES).size).toBe(LOCALES.length);
+  });
+
+  it('keep the ids older saves use', () => {
+    expect(LANGUAGES).toEqual(expect.arrayContaining(['English', 'Hebrew', 'Russian']));
+    expect(DEFAULT_LANGUAGE).toBe('English');
+  });
+
+  it.each(LOCALES.map(locale => [locale.id, locale] as const))('%s has compliments to speak', (_, locale) => {
+    expect(locale.messages.game.compliments.length).toBeGreaterThan(0);
+    expect(locale.messages.game.highScoreCompliments.length).toBeGreaterThan(0);
+  });
+
+  it('lays Hebrew out right to left', () => {
+    expect(getLocale('Hebrew').dir).toBe('rtl');
+    expect(getLocale('English').dir).toBe('ltr');
+  });
+});
+
+describe('getLocale', () => {
+  it('falls back to the default catalog for an unknown language', () => {
+    expect(isLanguage('Klingon')).toBe(false);
+    expect(getLocale('Klingon').id).toBe(DEFAULT_LANGUAGE);
+  });
+});
+
+describe('getQuestionText', () => {
+  it('reads the question in the chosen language', () => {
+    expect(getQuestionText({ num1: 7, num2: 8, type: 'multiplication' }, 'English')).toBe('7 times 8');
+    expect(getQuestionText({ num1: 7, num2: 8, type: 'division' }, 'Hebrew')).toBe('56 חלקי 8');
+    expect(getQuestionText({ num1: 7, num2: 8, type: 'missing_second' }, 'Russian')).toBe('7 умножить на сколько будет 56');
+  });
+});
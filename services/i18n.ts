@@ -0,0 +1,277 @@
+import { AchievementId, AssignmentInputMode, Difficulty, GameMode, Language, Misconception, MotionPreference, QuestionType, ThemeId, VersusStyle } from '../types';
+import { LOCALES } from '../locales';
+import { NumberVocabulary } from './spokenNumbers';
+import { ClipVocabulary } from './audioClips';
+import { ImportError } from './transfer';
+import { ResultCodeError } from './homework';
+
+// ============================================================================
+// LOCALIZATION (message catalogs)
+// ============================================================================
+// Every string the player or parent sees comes from a catalog in locales/.
+// A catalog also carries its text direction and how its speech should sound,
+// so a new language is one new catalog file registered in locales/index.ts.
+
+export interface SpeechSettings {
+  // BCP 47 tag for the utterance
+  lang: string;
+  // Voices whose lang starts with this are considered
+  voiceLang: string;
+  // Natural-sounding voices, tried in order by name
+  preferredVoices: string[];
+  // Softer settings when only a fallback voice is found. With `voices` set,
+  // only fallbacks whose name contains one of them (often robotic ones) are tuned.
+  fallbackTuning?: { pitch: number; rate: number; voices?: string[] };
+}
+
+export interface Messages {
+  common: {
+    back: string;
+    cancel: string;
+    save: string;
+    saved: string;
+    close: string;
+    start: string;
+    playAgain: string;
+    newRecord: (label: string, value: string) => string;
+  };
+  app: {
+    switchPlayer: string;
+    startOver: string;
+    mute: string;
+    unmute: string;
+    updateAvailable: string;
+    reload: string;
+  };
+  profiles: {
+    title: string;
+    newPlayer: string;
+    editPlayer: string;
+    namePlaceholder: string;
+    rename: (name: string) => string;
+    remove: (name: string) => string;
+    confirmDelete: (name: string) => string;
+    parents: string;
+  };
+  setup: {
+    title: string;
+    language: string;
+    mode: string;
+    difficulties: Record<Difficulty, string>;
+    modes: Record<GameMode, { label: string; description: string; bestLabel: string }>;
+  };
+  tables: {
+    title: string;
+    upTo: string;
+    all: (max: number) => string;
+  };
+  game: {
+    // The amount and reward name are shown between these
+    introWin: string;
+    introWinEnd: string;
+    intro: Record<GameMode, string>;
+    startGame: string;
+    loading: string;
+    streak: (count: number) => string;
+    speedBonus: (points: number) => string;
+    submit: string;
+    correctAnswer: string;
+    voiceOn: string;
+    voiceOff: string;
+    listening: string;
+    listenAgain: string;
+    storyOn: string;
+    storyOff: string;
+    storyLoading: string;
+    notANumber: (heard: string) => string;
+    compliments: string[];
+    // Used once the player is close to the target
+    highScoreCompliments: string[];
+  };
+  questions: {
+    multiplication: (num1: number, num2: number) => string;
+    division: (product: number, num2: number) => string;
+    missingFirst: (num2: number, product: number) => string;
+    missingSecond: (num1: number, product: number) => string;
+  };
+  // Story problems used when Gemini can't write one, told in the player's
+  // theme. The number being asked for must not appear in the story.
+  wordProblems: Record<QuestionType, ((num1: number, num2: number, product: number, theme: ThemeId) => string)[]>;
+  victory: {
+    title: string;
+    won: (amount: number, reward: string) => string;
+  };
+  timeUp: {
+    title: string;
+    correct: (count: number) => string;
+  };
+  parents: {
+    pinTitle: string;
+    choosePin: string;
+    enterPin: string;
+    pinPlaceholder: string;
+    repeatPin: string;
+    pinLength: string;
+    pinMismatch: string;
+    wrongPin: string;
+    unlock: string;
+    title: string;
+    noPlayers: string;
+    timesTables: string;
+    sessions: string;
+    commonMistakes: string;
+    questionTypes: string;
+    rewards: string;
+    accuracy: string;
+    speed: string;
+    accuracyLegend: string;
+    speedLegend: string;
+    unpracticedLegend: string;
+    factStats: (fact: string, correct: number, attempts: number, average: string) => string;
+    factUnpracticed: (fact: string) => string;
+    noGames: string;
+    sessionOption: (date: string, answers: number) => string;
+    sessionSummary: (correct: number, total: number, typed: number, finalScore: number) => string;
+    timedOut: string;
+    typed: string;
+    tapped: string;
+    spoken: string;
+    noMistakes: string;
+    misconceptions: Record<Misconception, string>;
+    voice: string;
+    accessibility: string;
+    theme: string;
+    themes: Record<ThemeId, string>;
+    sound: string;
+    transfer: string;
+  };
+  rewards: {
+    targetAmount: string;
+    rewardName: string;
+    pointsPerCorrect: string;
+    typedFrom: string;
+    penaltyTitle: string;
+    fromScore: string;
+    lose: string;
+    removeTier: string;
+    addTier: string;
+    defaults: string;
+  };
+  versus: {
+    open: string;
+    title: string;
+    styles: Record<VersusStyle, { label: string; description: string }>;
+    players: string;
+    difficulty: string;
+    firstTo: (target: number) => string;
+    turn: (name: string) => string;
+    wins: (name: string) => string;
+  };
+  achievements: {
+    open: string;
+    title: string;
+    unlocked: string;
+    locked: string;
+    unlockedOn: (date: string) => string;
+    items: Record<AchievementId, { name: string; description: string }>;
+  };
+  voice: {
+    muted: string;
+    voice: string;
+    automatic: string;
+    noVoices: string;
+    rate: string;
+    pitch: string;
+    volume: string;
+    preview: string;
+    defaults: string;
+  };
+  sound: {
+    muted: string;
+    effectsVolume: string;
+    music: string;
+    musicVolume: string;
+    preview: string;
+  };
+  transfer: {
+    exportAnswers: string;
+    exportFacts: string;
+    exportBackup: string;
+    importBackup: string;
+    importHint: string;
+    imported: (name: string) => string;
+    conflict: (name: string) => string;
+    // When no player here looks like the imported one
+    noMatch: (name: string) => string;
+    mergeInto: string;
+    merge: string;
+    keepBoth: string;
+    addNew: string;
+    readFailed: string;
+    errors: Record<ImportError, string>;
+  };
+  homework: {
+    open: string;
+    title: string;
+    // Shown on the player picker when a homework link was opened; the title may be empty
+    pickPlayer: (title: string, questions: number) => string;
+    intro: (questions: number) => string;
+    progress: (question: number, total: number) => string;
+    doneTitle: string;
+    score: (correct: number, total: number) => string;
+    codeHint: string;
+    copy: string;
+    copied: string;
+    done: string;
+    create: string;
+    assignmentTitle: string;
+    tables: string;
+    questionCount: string;
+    questionTypes: string;
+    inputMode: string;
+    inputModes: Record<AssignmentInputMode, string>;
+    createLink: string;
+    linkHint: string;
+    tooLongForQr: string;
+    verify: string;
+    codePlaceholder: string;
+    check: string;
+    result: (name: string, correct: number, total: number) => string;
+    resultDetails: (assignmentId: string, minutes: number, date: string) => string;
+    errors: Record<ResultCodeError, string>;
+  };
+  accessibility: {
+    // Read out by screen readers after each answer
+    correct: string;
+    incorrect: (answer: number) => string;
+    score: (score: number, reward: string) => string;
+    keyboardHint: string;
+    colorBlind: string;
+    motion: string;
+    motions: Record<MotionPreference, string>;
+  };
+}
+
+export interface LocaleCatalog {
+  // Saved in profiles, so it must never change once released
+  id: Language;
+  // Shown in the language picker, in the language itself
+  name: string;
+  dir: 'ltr' | 'rtl';
+  speech: SpeechSettings;
+  // Understanding spoken answers
+  numbers: NumberVocabulary;
+  // Recordings used when the device has no voice for the language
+  clips: ClipVocabulary;
+  messages: Messages;
+}
+
+export const DEFAULT_LANGUAGE: Language = LOCALES[0].id;
+
+export const LANGUAGES: Language[] = LOCALES.map(locale => locale.id);
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && LANGUAGES.includes(value);
+
+export const getLocale = (language: Language): LocaleCatalog =>
+  LOCALES.find(locale => locale.id === language) ?? LOCALES[0];
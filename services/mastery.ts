@@ -0,0 +1,100 @@
+import { FactPair, FactStats, MasteryMap } from '../types';
+
+// ============================================================================
+// FACT MASTERY (Leitner-style spaced repetition)
+// ============================================================================
+// Every fact from 1x1 to 12x12 moves through Leitner boxes: a quick correct
+// answer promotes it, a wrong answer sends it back to box 0. Higher boxes are
+// reviewed less often, so question selection leans on weak and overdue facts.
+
+export const MAX_FACTOR = 12;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How long a fact rests in each box before it is due again
+const BOX_INTERVALS_MS = [0, 2 * MINUTE, 10 * MINUTE, DAY, 4 * DAY];
+export const MASTERED_BOX = BOX_INTERVALS_MS.length - 1;
+
+// Correct answers slower than this don't earn a promotion
+export const SLOW_ANSWER_MS = 6000;
+
+// Ignore time spent away from the game when averaging
+const MAX_RESPONSE_MS = 60 * 1000;
+
+const BOX_WEIGHTS = [8, 4, 2, 1, 0.5];
+const UNSEEN_WEIGHT = 2;
+
+export const getFactKey = (num1: number, num2: number): string =>
+  num1 <= num2 ? `${num1}x${num2}` : `${num2}x${num1}`;
+
+export const isFactMastered = (stats: FactStats | undefined): boolean =>
+  !!stats && stats.box >= MASTERED_BOX;
+
+export const recordFactAttempt = (
+  mastery: MasteryMap,
+  num1: number,
+  num2: number,
+  correct: boolean,
+  responseMs: number,
+  now: number = Date.now(),
+): MasteryMap => {
+  const key = getFactKey(num1, num2);
+  const previous = mastery[key];
+  const clampedMs = Math.min(Math.max(0, responseMs), MAX_RESPONSE_MS);
+
+  let box = previous?.box ?? 0;
+  if (!correct) {
+    box = 0;
+  } else if (clampedMs < SLOW_ANSWER_MS) {
+    box = Math.min(box + 1, MASTERED_BOX);
+  }
+
+  // Exponential moving average so recent answers count the most
+  const averageResponseMs = previous
+    ? Math.round(previous.averageResponseMs * 0.7 + clampedMs * 0.3)
+    : clampedMs;
+
+  return {
+    ...mastery,
+    [key]: {
+      attempts: (previous?.attempts ?? 0) + 1,
+      correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+      averageResponseMs,
+      box,
+      lastSeenAt: now,
+      dueAt: now + BOX_INTERVALS_MS[box],
+    },
+  };
+};
+
+export const getFactWeight = (stats: FactStats | undefined, now: number): number => {
+  if (!stats) {
+    return UNSEEN_WEIGHT;
+  }
+  let weight = BOX_WEIGHTS[Math.min(stats.box, BOX_WEIGHTS.length - 1)];
+  weight *= now >= stats.dueAt ? 2 : 0.25;
+  if (stats.averageResponseMs >= SLOW_ANSWER_MS) {
+    weight *= 1.5;
+  }
+  return weight;
+};
+
+// Weighted random pick among the facts allowed by the current difficulty tier
+export const pickFact = (
+  candidates: FactPair[],
+  mastery: MasteryMap,
+  now: number = Date.now(),
+  random: () => number = Math.random,
+): FactPair => {
+  const weights = candidates.map(c => getFactWeight(mastery[getFactKey(c.num1, c.num2)], now));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) {
+      return candidates[i];
+    }
+  }
+  return candidates[candidates.length - 1];
+};
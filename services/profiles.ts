@@ -0,0 +1,53 @@
+import { Difficulty, GameRecord, Profile } from '../types';
+import { DEFAULT_REWARD_RULES } from './rewardRules';
+import { DEFAULT_TABLE_SELECTION } from './tableSelection';
+import { DEFAULT_QUESTION_TYPES } from './questionTypes';
+import { DEFAULT_LANGUAGE } from './i18n';
+import { DEFAULT_VOICE_SETTINGS } from './voiceSettings';
+import { DEFAULT_ACCESSIBILITY } from './accessibility';
+import { DEFAULT_THEME } from './themes';
+import { DEFAULT_SOUND_SETTINGS } from './soundSettings';
+
+// ============================================================================
+// PLAYER PROFILES
+// ============================================================================
+
+export const AVATARS = ['🦊', '🐼', '🦖', '🚀', '🐱', '🤖', '🦄', '🐸'];
+
+export const MAX_NAME_LENGTH = 16;
+
+// Only the most recent games are kept so storage doesn't grow forever
+export const MAX_HISTORY = 50;
+
+const createProfileId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const normalizeProfileName = (name: string): string =>
+  name.trim().slice(0, MAX_NAME_LENGTH);
+
+export const createProfile = (name: string, avatar: string): Profile => ({
+  id: createProfileId(),
+  name: normalizeProfileName(name),
+  avatar,
+  gameState: 'selecting_difficulty',
+  mode: 'classic',
+  difficulty: Difficulty.Easy,
+  language: DEFAULT_LANGUAGE,
+  robuxScore: 0,
+  progress: null,
+  history: [],
+  personalBests: {},
+  tableSelection: DEFAULT_TABLE_SELECTION,
+  questionTypes: DEFAULT_QUESTION_TYPES,
+  mastery: {},
+  answers: [],
+  rules: DEFAULT_REWARD_RULES,
+  voice: DEFAULT_VOICE_SETTINGS,
+  achievements: {},
+  accessibility: DEFAULT_ACCESSIBILITY,
+  theme: DEFAULT_THEME,
+  sound: DEFAULT_SOUND_SETTINGS,
+});
+
+export const addGameRecord = (history: GameRecord[], record: GameRecord): GameRecord[] =>
+  [...history, record].slice(-MAX_HISTORY);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createQrCode } from './qrCode';
+
+const draw = (matrix: boolean[][]) => matrix.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+describe('createQrCode', () => {
+  it('matches a reference code module for module', () => {
+    // "hi" with mask 2, as drawn by the python-qrcode reference encoder
+    expect(draw(createQrCode('hi', 2)!)).toEqual([
+      '#######..####.#######',
+      '#.....#..##.#.#.....#',
+      '#.###.#.##.##.#.###.#',
+      '#.###.#.##..#.#.###.#',
+      '#.###.#.#..##.#.###.#',
+      '#.....#.##..#.#.....#',
+      '#######.#.#.#.#######',
+      '........#.###........',
+      '#.#####.....#.#####..',
+      '.###.#.#..#.#..#....#',
+      '..##..##.#.#.#..####.',
+      '###.#....#.....##.#..',
+      '###.#.#....#.#..#.#.#',
+      '........#..####..#..#',
+      '#######...#.#.##...#.',
+      '#.....#.#######..#..#',
+      '#.###.#.#...#..#..#..',
+      '#.###.#.###.#..#..#..',
+      '#.###.#.#..#.#..###..',
+      '#.....#..##....##.#..',
+      '#######.#.##.#..####.',
+    ]);
+  });
+
+  it('grows with the text and gives up past version 10', () => {
+    expect(createQrCode('x'.repeat(14))).toHaveLength(21);
+    expect(createQrCode('x'.repeat(15))).toHaveLength(25);
+    expect(createQrCode('x'.repeat(213))).toHaveLength(57);
+    expect(createQrCode('x'.repeat(214))).toBeNull();
+  });
+});
@@ -0,0 +1,378 @@
+// ============================================================================
+// QR CODES (byte mode, error correction level M, versions 1-10)
+// ============================================================================
+// Just enough of the QR standard to put an assignment link on a projector or
+// a worksheet. Follows the layout in ISO/IEC 18004; ten versions hold links
+// up to 213 bytes, which is plenty for an assignment.
+
+export const MAX_QR_VERSION = 10;
+
+// Level M: error correction codewords per block and number of blocks, by version
+const EC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const EC_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+// Level M in the format information
+const EC_LEVEL_BITS = 0;
+
+// Modules indexed [y][x], true for dark
+export type QrMatrix = boolean[][];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// Data and error correction codewords that fit in a version once the fixed patterns are placed
+const getRawCodewords = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return Math.floor(modules / 8);
+};
+
+const getDataCodewords = (version: number): number =>
+  getRawCodewords(version) - EC_CODEWORDS_PER_BLOCK[version - 1] * EC_BLOCKS[version - 1];
+
+// ----------------------------------------------------------------------------
+// Reed-Solomon error correction over GF(256)
+// ----------------------------------------------------------------------------
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const getDivisor = (degree: number): number[] => {
+  const result = Array<number>(degree - 1).fill(0).concat(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const getRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+// Splits the data into blocks, adds error correction to each and interleaves them
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const blockCount = EC_BLOCKS[version - 1];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = getRawCodewords(version);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getDivisor(ecLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - ecLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ec = getRemainder(block, divisor);
+    // Padding so every block lines up; skipped when interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ec));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - ecLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// ----------------------------------------------------------------------------
+// Layout
+// ----------------------------------------------------------------------------
+
+const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+interface QrGrid {
+  version: number;
+  size: number;
+  modules: QrMatrix;
+  // Finder, timing, alignment and format modules, which masks and data leave alone
+  isFunction: boolean[][];
+}
+
+const setFunction = (grid: QrGrid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+};
+
+const drawFinder = (grid: QrGrid, x: number, y: number) => {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < grid.size && yy >= 0 && yy < grid.size) {
+        setFunction(grid, xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+};
+
+const drawAlignment = (grid: QrGrid, x: number, y: number) => {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      setFunction(grid, x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+};
+
+const drawFormatBits = (grid: QrGrid, mask: number) => {
+  const data = (EC_LEVEL_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const { size } = grid;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, getBit(bits, i));
+  setFunction(grid, 8, 7, getBit(bits, 6));
+  setFunction(grid, 8, 8, getBit(bits, 7));
+  setFunction(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, getBit(bits, i));
+
+  // Split between the other two finders, plus the module that is always dark
+  for (let i = 0; i < 8; i++) setFunction(grid, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunction(grid, 8, size - 15 + i, getBit(bits, i));
+  setFunction(grid, 8, size - 8, true);
+};
+
+const drawVersionBits = (grid: QrGrid) => {
+  const { version, size } = grid;
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunction(grid, a, b, getBit(bits, i));
+    setFunction(grid, b, a, getBit(bits, i));
+  }
+};
+
+const createGrid = (version: number): QrGrid => {
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    version,
+    size,
+    modules: Array.from({ length: size }, () => Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => Array<boolean>(size).fill(false)),
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0);
+    setFunction(grid, i, 6, i % 2 === 0);
+  }
+  drawFinder(grid, 3, 3);
+  drawFinder(grid, size - 4, 3);
+  drawFinder(grid, 3, size - 4);
+
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((y, i) => positions.forEach((x, j) => {
+    // The corners already hold finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    drawAlignment(grid, x, y);
+  }));
+
+  // Reserved now, filled in once the mask is known
+  drawFormatBits(grid, 0);
+  drawVersionBits(grid);
+  return grid;
+};
+
+// Fills the free modules in the zigzag order, two columns at a time from the bottom right
+const drawCodewords = (grid: QrGrid, codewords: number[]) => {
+  const { size } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Skip the vertical timing pattern
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!grid.isFunction[y][x] && i < codewords.length * 8) {
+          grid.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+// Applying the same mask twice undoes it
+const applyMask = (grid: QrGrid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+};
+
+// Lower is easier to scan: long runs, 2x2 blocks, finder look-alikes and
+// an uneven dark/light balance all cost points
+const getPenalty = ({ size, modules }: QrGrid): number => {
+  let penalty = 0;
+
+  const addHistory = (runLength: number, history: number[]) => {
+    // The quiet zone counts as a light run before the first module
+    if (history[0] === 0) runLength += size;
+    history.pop();
+    history.unshift(runLength);
+  };
+  const countFinderLike = (history: number[]): number => {
+    const n = history[1];
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+  };
+
+  const scanLine = (get: (i: number) => boolean) => {
+    let runColor = false;
+    let runLength = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < size; i++) {
+      if (get(i) === runColor) {
+        runLength++;
+        if (runLength === 5) penalty += 3;
+        else if (runLength > 5) penalty++;
+      } else {
+        addHistory(runLength, history);
+        if (!runColor) penalty += countFinderLike(history) * 40;
+        runColor = get(i);
+        runLength = 1;
+      }
+    }
+    if (runColor) {
+      addHistory(runLength, history);
+      runLength = 0;
+    }
+    addHistory(runLength + size, history);
+    penalty += countFinderLike(history) * 40;
+  };
+
+  for (let y = 0; y < size; y++) scanLine(x => modules[y][x]);
+  for (let x = 0; x < size; x++) scanLine(y => modules[y][x]);
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+// Mode indicator, character count and the bytes, padded out to the version's capacity
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = getDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+// The smallest code that holds the text, or null when it's too long.
+// `mask` forces one of the 8 masks instead of picking the easiest to scan.
+export const createQrCode = (text: string, mask?: number): QrMatrix | null => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_QR_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    version++;
+  }
+  if (version > MAX_QR_VERSION) return null;
+
+  const grid = createGrid(version);
+  drawCodewords(grid, addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = mask ?? 0;
+  if (mask === undefined) {
+    let bestPenalty = Infinity;
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      applyMask(grid, candidate);
+      drawFormatBits(grid, candidate);
+      const penalty = getPenalty(grid);
+      if (penalty < bestPenalty) {
+        bestMask = candidate;
+        bestPenalty = penalty;
+      }
+      applyMask(grid, candidate);
+    }
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+  return grid.modules;
+};
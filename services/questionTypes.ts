@@ -0,0 +1,76 @@
+import { Language, QuestionType } from '../types';
+import { getLocale } from './i18n';
+
+// ============================================================================
+// QUESTION TYPES (multiplication, division, missing factor)
+// ============================================================================
+
+export const QUESTION_TYPES: QuestionType[] = ['multiplication', 'division', 'missing_second', 'missing_first'];
+
+export const DEFAULT_QUESTION_TYPES: QuestionType[] = ['multiplication'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiplication: '7 × 8 = ?',
+  division: '56 ÷ 7 = ?',
+  missing_second: '7 × ? = 56',
+  missing_first: '? × 8 = 56',
+};
+
+export interface QuestionParts {
+  num1: number;
+  num2: number;
+  type: QuestionType;
+}
+
+export const isQuestionType = (value: unknown): value is QuestionType =>
+  QUESTION_TYPES.includes(value as QuestionType);
+
+export const pickQuestionType = (enabled: QuestionType[], random: () => number = Math.random): QuestionType =>
+  enabled.length > 0 ? enabled[Math.floor(random() * enabled.length)] : 'multiplication';
+
+export const getAnswer = ({ num1, num2, type }: QuestionParts): number => {
+  switch (type) {
+    case 'division':
+    case 'missing_first':
+      return num1;
+    case 'missing_second':
+      return num2;
+    case 'multiplication':
+    default:
+      return num1 * num2;
+  }
+};
+
+// What the player sees, e.g. "56 ÷ 7" or "7 x ? = 56"
+export const formatQuestion = ({ num1, num2, type }: QuestionParts): string => {
+  const product = num1 * num2;
+  switch (type) {
+    case 'division':
+      return `${product} ÷ ${num2}`;
+    case 'missing_first':
+      return `? x ${num2} = ${product}`;
+    case 'missing_second':
+      return `${num1} x ? = ${product}`;
+    case 'multiplication':
+    default:
+      return `${num1} x ${num2}`;
+  }
+};
+
+// What speakText reads out
+export const getQuestionText = ({ num1, num2, type }: QuestionParts, language: Language): string => {
+  const { questions } = getLocale(language).messages;
+  const product = num1 * num2;
+  switch (type) {
+    case 'division': return questions.division(product, num2);
+    case 'missing_first': return questions.missingFirst(num2, product);
+    case 'missing_second': return questions.missingSecond(num1, product);
+    default: return questions.multiplication(num1, num2);
+  }
+};
+
+export const sanitizeQuestionTypes = (value: unknown): QuestionType[] => {
+  if (!Array.isArray(value)) return DEFAULT_QUESTION_TYPES;
+  const types = QUESTION_TYPES.filter(type => value.includes(type));
+  return types.length > 0 ? types : DEFAULT_QUESTION_TYPES;
+};
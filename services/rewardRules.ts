@@ -0,0 +1,88 @@
+import { PenaltyTier, RewardRules } from '../types';
+
+// ============================================================================
+// REWARD RULES
+// ============================================================================
+
+export const DEFAULT_REWARD_RULES: RewardRules = {
+  targetAmount: 1000,
+  rewardName: 'Robux',
+  pointsPerCorrect: 5,
+  penaltyTiers: [
+    { minScore: 0, penalty: 2 },
+    { minScore: 700, penalty: 4 },
+    { minScore: 800, penalty: 5 },
+    { minScore: 930, penalty: 8 },
+  ],
+  typedModeThreshold: 900,
+};
+
+export const REWARD_NAME_PRESETS = ['Robux', 'minutes of screen time', 'stars'];
+
+export const RULE_LIMITS = {
+  targetAmount: { min: 10, max: 100000 },
+  pointsPerCorrect: { min: 1, max: 1000 },
+  penalty: { min: 0, max: 1000 },
+  rewardNameLength: 32,
+  penaltyTiers: 8,
+};
+
+// Score milestones that used to be fixed out of 1000. They scale with the
+// target so a smaller or bigger goal still ramps up the same way.
+const MILESTONES = {
+  noTimesOne: 0.1,
+  almostThere: 0.95,
+};
+
+export const hasReachedMilestone = (score: number, rules: RewardRules, milestone: keyof typeof MILESTONES): boolean =>
+  score >= rules.targetAmount * MILESTONES[milestone];
+
+export const getPenalty = (score: number, rules: RewardRules): number => {
+  let penalty = 0;
+  for (const tier of rules.penaltyTiers) {
+    if (score >= tier.minScore) {
+      penalty = tier.penalty;
+    }
+  }
+  return penalty;
+};
+
+export const isTypedMode = (score: number, rules: RewardRules): boolean =>
+  score >= rules.typedModeThreshold;
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Accepts anything (saved data, form input) and returns a usable rules object
+export const sanitizeRewardRules = (value: unknown): RewardRules => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_REWARD_RULES;
+  }
+  const data = value as Record<string, unknown>;
+  const defaults = DEFAULT_REWARD_RULES;
+  const targetAmount = clampInt(data.targetAmount, RULE_LIMITS.targetAmount.min, RULE_LIMITS.targetAmount.max, defaults.targetAmount);
+  const rewardName = typeof data.rewardName === 'string' && data.rewardName.trim()
+    ? data.rewardName.trim().slice(0, RULE_LIMITS.rewardNameLength)
+    : defaults.rewardName;
+
+  let penaltyTiers: PenaltyTier[] = defaults.penaltyTiers;
+  if (Array.isArray(data.penaltyTiers)) {
+    penaltyTiers = data.penaltyTiers
+      .filter((tier): tier is Record<string, unknown> => typeof tier === 'object' && tier !== null)
+      .slice(0, RULE_LIMITS.penaltyTiers)
+      .map(tier => ({
+        minScore: clampInt(tier.minScore, 0, targetAmount, 0),
+        penalty: clampInt(tier.penalty, RULE_LIMITS.penalty.min, RULE_LIMITS.penalty.max, 0),
+      }))
+      .sort((a, b) => a.minScore - b.minScore);
+  }
+
+  return {
+    targetAmount,
+    rewardName,
+    pointsPerCorrect: clampInt(data.pointsPerCorrect, RULE_LIMITS.pointsPerCorrect.min, RULE_LIMITS.pointsPerCorrect.max, defaults.pointsPerCorrect),
+    penaltyTiers,
+    // At or above the target the game is already won, so typed mode never starts
+    typedModeThreshold: clampInt(data.typedModeThreshold, 0, targetAmount, Math.min(defaults.typedModeThreshold, targetAmount)),
+  };
+};
@@ -0,0 +1,48 @@
+// ============================================================================
+// SERVICE WORKER REGISTRATION
+// ============================================================================
+// sw.js only exists in a build (see build/serviceWorkerPlugin.ts). A new
+// version waits until the player agrees to reload, so a deploy never swaps
+// files out from under a game in progress.
+
+let isReloading = false;
+
+export const registerServiceWorker = (onUpdateReady: (applyUpdate: () => void) => void): void => {
+  if (!('serviceWorker' in navigator)) return;
+
+  const offerUpdate = (worker: ServiceWorker) => {
+    onUpdateReady(() => worker.postMessage({ type: 'SKIP_WAITING' }));
+  };
+
+  const register = () => {
+    navigator.serviceWorker.register('./sw.js').then(registration => {
+      // Without a controller this is the first install, not an update
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        offerUpdate(registration.waiting);
+      }
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+            offerUpdate(worker);
+          }
+        });
+      });
+    }, err => {
+      console.log('ServiceWorker registration failed: ', err);
+    });
+  };
+
+  // The waiting worker took over, so reload onto the new files
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (isReloading) return;
+    isReloading = true;
+    window.location.reload();
+  });
+
+  if (document.readyState === 'complete') {
+    register();
+  } else {
+    window.addEventListener('load', register, { once: true });
+  }
+};
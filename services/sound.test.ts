@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DUCKED_GAIN, getBusGains, getEffectTones, getMusicBar, isStreakMilestone, MUSIC_BAR_SECONDS } from './sound';
+import { DEFAULT_SOUND_SETTINGS, sanitizeSoundSettings } from './soundSettings';
+
+const lastNote = (streak: number) => {
+  const tones = getEffectTones('streak', streak);
+  return tones[tones.length - 1].frequency;
+};
+
+describe('sound effects', () => {
+  it('chimes every fifth answer in a row, higher as the streak grows', () => {
+    expect([0, 4, 5, 9, 10, 15].map(isStreakMilestone)).toEqual([false, false, true, false, true, true]);
+    expect(lastNote(10)).toBeGreaterThan(lastNote(5));
+    expect(lastNote(15)).toBeGreaterThan(lastNote(10));
+    // It stops climbing before it gets shrill
+    expect(lastNote(100)).toBe(lastNote(25));
+  });
+
+  it('builds every effect from audible, non-empty tones', () => {
+    for (const effect of ['coin', 'buzz', 'streak', 'fanfare'] as const) {
+      const tones = getEffectTones(effect, 5);
+      expect(tones.length).toBeGreaterThan(0);
+      for (const tone of tones) {
+        expect(tone.duration).toBeGreaterThan(0);
+        expect(tone.frequency).toBeGreaterThan(20);
+        expect(tone.gain).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('loops the music with every note inside its bar', () => {
+    expect(getMusicBar(4)).toEqual(getMusicBar(0));
+    expect(getMusicBar(1)).not.toEqual(getMusicBar(0));
+    for (const tone of getMusicBar(2)) {
+      expect(tone.start).toBeLessThan(MUSIC_BAR_SECONDS);
+    }
+  });
+});
+
+describe('getBusGains', () => {
+  const settings = { ...DEFAULT_SOUND_SETTINGS, effectsVolume: 0.8, music: true, musicVolume: 0.5 };
+
+  it('turns both down while the voice is talking', () => {
+    expect(getBusGains(settings, false)).toEqual({ effects: 0.8, music: 0.5 });
+    expect(getBusGains(settings, true)).toEqual({ effects: 0.8 * DUCKED_GAIN.effects, music: 0.5 * DUCKED_GAIN.music });
+  });
+
+  it('silences music that is off and everything when muted', () => {
+    expect(getBusGains({ ...settings, music: false }, false).music).toBe(0);
+    expect(getBusGains({ ...settings, muted: true }, false)).toEqual({ effects: 0, music: 0 });
+  });
+});
+
+describe('sanitizeSoundSettings', () => {
+  it('falls back to the defaults and clamps volumes', () => {
+    expect(sanitizeSoundSettings(undefined)).toEqual(DEFAULT_SOUND_SETTINGS);
+    expect(sanitizeSoundSettings({ muted: true, effectsVolume: 3, music: 'yes', musicVolume: -1 })).toEqual({
+      muted: true,
+      effectsVolume: 1,
+      music: false,
+      musicVolume: 0,
+    });
+  });
+});
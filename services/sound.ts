@@ -0,0 +1,254 @@
+import { SoundSettings } from '../types';
+import { DEFAULT_SOUND_SETTINGS } from './soundSettings';
+import { onSpeakingChange } from './speech';
+
+// ============================================================================
+// SOUND EFFECTS AND MUSIC (synthesized with Web Audio)
+// ============================================================================
+// Nothing is recorded: every sound is a handful of oscillator notes. Effects
+// and music each go through their own volume, and both are turned down while
+// a question or compliment is read aloud so the voice stays clear.
+
+export type SoundEffect = 'coin' | 'buzz' | 'streak' | 'fanfare';
+
+export interface Tone {
+  // Seconds after the sound starts
+  start: number;
+  duration: number;
+  frequency: number;
+  // Slides to this frequency over the tone, if set
+  endFrequency?: number;
+  wave: OscillatorType;
+  gain: number;
+}
+
+export type SoundBus = 'effects' | 'music';
+
+// Every this many right answers in a row gets a chime
+export const STREAK_MILESTONE = 5;
+
+// Share of each volume kept while the voice is talking
+export const DUCKED_GAIN: Record<SoundBus, number> = { effects: 0.6, music: 0.25 };
+
+// Frequency of the note this many semitones from A4 (440 Hz)
+const note = (semitones: number): number => 440 * 2 ** (semitones / 12);
+
+const C5 = 3;
+const E5 = 7;
+const G5 = 10;
+const C6 = 15;
+
+export const isStreakMilestone = (streak: number): boolean =>
+  streak > 0 && streak % STREAK_MILESTONE === 0;
+
+const getStreakTones = (streak: number): Tone[] => {
+  // Each milestone starts the chime a step higher, up to four steps
+  const step = Math.min(Math.max(0, Math.floor(streak / STREAK_MILESTONE) - 1), 4) * 2;
+  // After the coin that came with the same answer
+  return [0, 4, 7, 12].map((interval, i) => ({
+    start: 0.15 + i * 0.09,
+    duration: 0.45,
+    frequency: note(C5 + step + interval),
+    wave: 'triangle',
+    gain: 0.3,
+  }));
+};
+
+export const getEffectTones = (effect: SoundEffect, streak = 0): Tone[] => {
+  switch (effect) {
+    case 'coin':
+      return [
+        { start: 0, duration: 0.08, frequency: note(14), wave: 'square', gain: 0.2 },
+        { start: 0.08, duration: 0.3, frequency: note(19), wave: 'square', gain: 0.2 },
+      ];
+    case 'buzz':
+      return [{ start: 0, duration: 0.35, frequency: 140, endFrequency: 90, wave: 'sawtooth', gain: 0.2 }];
+    case 'streak':
+      return getStreakTones(streak);
+    case 'fanfare':
+      return [
+        ...[C5, E5, G5].map((semitones, i) => ({ start: i * 0.14, duration: 0.14, frequency: note(semitones), wave: 'square' as const, gain: 0.18 })),
+        { start: 0.42, duration: 0.8, frequency: note(C6), wave: 'square', gain: 0.18 },
+        { start: 0.42, duration: 0.8, frequency: note(G5), wave: 'triangle', gain: 0.25 },
+        { start: 0.42, duration: 0.8, frequency: note(E5), wave: 'triangle', gain: 0.25 },
+      ];
+  }
+};
+
+// ----------------------------------------------------------------------------
+// Music
+// ----------------------------------------------------------------------------
+// A gentle loop: C, Am, F and G, one bar each, as a bass note and a rolling arpeggio.
+
+export const MUSIC_BAR_SECONDS = 2;
+const MUSIC_CHORDS = [
+  { bass: -21, arpeggio: [C5, E5, G5, E5] },
+  { bass: -24, arpeggio: [0, C5, E5, C5] },
+  { bass: -28, arpeggio: [-4, 0, C5, 0] },
+  { bass: -26, arpeggio: [-2, 2, 5, 2] },
+];
+
+export const getMusicBar = (bar: number): Tone[] => {
+  const chord = MUSIC_CHORDS[bar % MUSIC_CHORDS.length];
+  const beat = MUSIC_BAR_SECONDS / 8;
+  return [
+    { start: 0, duration: MUSIC_BAR_SECONDS, frequency: note(chord.bass), wave: 'triangle', gain: 0.35 },
+    ...Array.from({ length: 8 }, (_, i): Tone => ({
+      start: i * beat,
+      duration: beat * 1.5,
+      frequency: note(chord.arpeggio[i % chord.arpeggio.length]),
+      wave: 'sine',
+      gain: 0.2,
+    })),
+  ];
+};
+
+export const getBusGains = (settings: SoundSettings, speaking: boolean): Record<SoundBus, number> => {
+  if (settings.muted) return { effects: 0, music: 0 };
+  return {
+    effects: settings.effectsVolume * (speaking ? DUCKED_GAIN.effects : 1),
+    music: settings.music ? settings.musicVolume * (speaking ? DUCKED_GAIN.music : 1) : 0,
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Playback
+// ----------------------------------------------------------------------------
+
+// How quickly volume changes settle, so ducking fades rather than clicks
+const GAIN_TIME_CONSTANT = 0.08;
+// Music is scheduled this far ahead so a busy main thread doesn't leave gaps
+const MUSIC_LOOKAHEAD_S = 0.3;
+
+interface AudioGraph {
+  context: AudioContext;
+  buses: Record<SoundBus, GainNode>;
+}
+
+let graph: AudioGraph | null = null;
+let settings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+let speaking = false;
+let musicWanted = false;
+// The music currently looping, faded out and dropped when it stops
+let music: { output: GainNode; timer: ReturnType<typeof setTimeout> | null } | null = null;
+
+// Created on first use: browsers only let audio start after the player has interacted
+const getGraph = (): AudioGraph | null => {
+  if (!graph) {
+    if (typeof window === 'undefined') return null;
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    const context = new AudioContextClass();
+    const createBus = () => {
+      const bus = context.createGain();
+      bus.connect(context.destination);
+      return bus;
+    };
+    graph = { context, buses: { effects: createBus(), music: createBus() } };
+    applyGains();
+  }
+  if (graph.context.state === 'suspended') {
+    graph.context.resume().catch(() => {});
+  }
+  return graph;
+};
+
+const applyGains = () => {
+  if (!graph) return;
+  const { context, buses } = graph;
+  const gains = getBusGains(settings, speaking);
+  (Object.keys(gains) as SoundBus[]).forEach(bus => buses[bus].gain.setTargetAtTime(gains[bus], context.currentTime, GAIN_TIME_CONSTANT));
+};
+
+const scheduleTones = (context: AudioContext, tones: Tone[], output: AudioNode, startAt: number) => {
+  for (const tone of tones) {
+    const begin = startAt + tone.start;
+    const end = begin + tone.duration;
+    const oscillator = context.createOscillator();
+    oscillator.type = tone.wave;
+    oscillator.frequency.setValueAtTime(tone.frequency, begin);
+    if (tone.endFrequency) {
+      oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, end);
+    }
+    // A quick attack and a decay to silence keep notes from clicking
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.0001, begin);
+    envelope.gain.linearRampToValueAtTime(tone.gain, begin + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+    oscillator.connect(envelope).connect(output);
+    oscillator.start(begin);
+    oscillator.stop(end + 0.05);
+  }
+};
+
+const startMusic = (audio: AudioGraph) => {
+  const output = audio.context.createGain();
+  output.connect(audio.buses.music);
+  const current = { output, timer: null as ReturnType<typeof setTimeout> | null };
+  music = current;
+
+  let bar = 0;
+  const scheduleBar = (startAt: number) => {
+    scheduleTones(audio.context, getMusicBar(bar++), output, startAt);
+    const nextAt = startAt + MUSIC_BAR_SECONDS;
+    current.timer = setTimeout(() => scheduleBar(nextAt), (nextAt - audio.context.currentTime - MUSIC_LOOKAHEAD_S) * 1000);
+  };
+  scheduleBar(audio.context.currentTime + 0.05);
+};
+
+const stopMusic = () => {
+  if (!music || !graph) return;
+  const { output, timer } = music;
+  music = null;
+  if (timer) clearTimeout(timer);
+  // Notes already scheduled fade out instead of being cut off
+  output.gain.setTargetAtTime(0, graph.context.currentTime, GAIN_TIME_CONSTANT);
+  setTimeout(() => output.disconnect(), 1000);
+};
+
+const updateMusic = () => {
+  const shouldPlay = musicWanted && !settings.muted && settings.music && settings.musicVolume > 0;
+  if (shouldPlay && !music) {
+    const audio = getGraph();
+    if (audio) startMusic(audio);
+  } else if (!shouldPlay && music) {
+    stopMusic();
+  }
+};
+
+onSpeakingChange((isSpeaking) => {
+  speaking = isSpeaking;
+  applyGains();
+});
+
+// The active player's settings; App keeps these current
+export const setSoundSettings = (next: SoundSettings) => {
+  settings = next;
+  applyGains();
+  updateMusic();
+};
+
+// Music loops while a game is on screen, if the player has it turned on
+export const setMusicPlaying = (playing: boolean) => {
+  musicWanted = playing;
+  updateMusic();
+};
+
+// `streak` raises the streak chime as the streak grows
+export const playSound = (effect: SoundEffect, streak = 0) => {
+  if (settings.muted || settings.effectsVolume === 0) return;
+  const audio = getGraph();
+  if (!audio) return;
+  scheduleTones(audio.context, getEffectTones(effect, streak), audio.buses.effects, audio.context.currentTime);
+};
+
+// Plays an effect at the volume of unsaved settings, even when sound is muted
+export const previewSound = (effect: SoundEffect, preview: SoundSettings) => {
+  const audio = getGraph();
+  if (!audio) return;
+  const output = audio.context.createGain();
+  output.gain.value = getBusGains({ ...preview, muted: false }, false).effects;
+  output.connect(audio.context.destination);
+  scheduleTones(audio.context, getEffectTones(effect), output, audio.context.currentTime);
+  setTimeout(() => output.disconnect(), 2000);
+};
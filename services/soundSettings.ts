@@ -0,0 +1,34 @@
+import { SoundSettings } from '../types';
+
+// ============================================================================
+// SOUND SETTINGS
+// ============================================================================
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  muted: false,
+  effectsVolume: 0.8,
+  music: false,
+  musicVolume: 0.4,
+};
+
+// Same range the settings sliders offer
+export const SOUND_VOLUME_LIMITS = { min: 0, max: 1 };
+
+const clampVolume = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(SOUND_VOLUME_LIMITS.max, Math.max(SOUND_VOLUME_LIMITS.min, value))
+    : fallback;
+
+// Accepts anything (saved data, form input) and returns usable settings
+export const sanitizeSoundSettings = (value: unknown): SoundSettings => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_SOUND_SETTINGS;
+  }
+  const data = value as Record<string, unknown>;
+  return {
+    muted: data.muted === true,
+    effectsVolume: clampVolume(data.effectsVolume, DEFAULT_SOUND_SETTINGS.effectsVolume),
+    music: data.music === true,
+    musicVolume: clampVolume(data.musicVolume, DEFAULT_SOUND_SETTINGS.musicVolume),
+  };
+};
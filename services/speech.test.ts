@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A device without speechSynthesis: the window has no voices at all
+const setUpDevice = (recordings: string[]) => {
+  const played: string[] = [];
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+    ok: url === './audio/clips.json',
+    json: async () => recordings,
+  })));
+  vi.stubGlobal('Audio', class {
+    onended: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    constructor(url: string) {
+      played.push(url);
+    }
+    play() {
+      setTimeout(() => this.onended?.(), 0);
+      return Promise.resolve();
+    }
+    pause() {}
+  });
+  return played;
+};
+
+// The clip manifest is loaded once per module, so each test gets a fresh one
+const loadSpeech = () => import('./speech');
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('speakText without speechSynthesis', () => {
+  it('stitches a question from the recordings the build lists', async () => {
+    const played = setUpDevice(['audio/en/7.mp3', 'audio/en/8.mp3', 'audio/en/times.mp3']);
+    const { speakText } = await loadSpeech();
+
+    await speakText('7 times 8', 'English');
+    expect(played).toEqual(['./audio/en/7.mp3', './audio/en/times.mp3', './audio/en/8.mp3']);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('plays nothing when a recording is missing', async () => {
+    const played = setUpDevice(['audio/en/7.mp3', 'audio/en/times.mp3']);
+    const { speakText } = await loadSpeech();
+
+    await speakText('7 times 8', 'English');
+    expect(played).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith('No speech available for', 'English');
+  });
+
+  it('treats a missing manifest as no recordings', async () => {
+    const played = setUpDevice([]);
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    const { speakText } = await loadSpeech();
+
+    await speakText('7 times 8', 'English');
+    expect(played).toEqual([]);
+  });
+});
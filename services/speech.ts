@@ -0,0 +1,234 @@
+import { Language, VoiceChoice, VoiceSettings } from '../types';
+import { getLocale } from './i18n';
+import { DEFAULT_VOICE_SETTINGS, getVoiceChoice } from './voiceSettings';
+import { CLIP_MANIFEST_PATH, getClipNames, getClipPath } from './audioClips';
+import { createSpeechQueue, QueuedSpeech } from './speechQueue';
+
+// ============================================================================
+// NATIVE BROWSER AUDIO SYSTEM (Web Speech API, recorded clips as a fallback)
+// ============================================================================
+
+// One way of reading text aloud. speakText uses the first provider that can
+// say the text, so a device without voices falls back to recordings.
+export interface SpeechProvider {
+  canSpeak: (text: string, language: Language) => Promise<boolean>;
+  // Resolves once the text has been spoken (or cut off)
+  speak: (text: string, language: Language, settings: VoiceSettings) => Promise<void>;
+  cancel: () => void;
+}
+
+const isSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Some systems never announce any voices, so stop waiting after this long
+const VOICE_WAIT_MS = 1500;
+
+// Helper to load voices asynchronously (Chrome sometimes returns empty array initially)
+export const getVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  return new Promise((resolve) => {
+    if (!isSynthesisSupported()) {
+      resolve([]);
+      return;
+    }
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+
+    // Listening rather than setting onvoiceschanged, so callers waiting at the same time all hear back
+    const synthesis = window.speechSynthesis;
+    const finish = (result: SpeechSynthesisVoice[]) => {
+      clearTimeout(timer);
+      synthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+      resolve(result);
+    };
+    const handleVoicesChanged = () => finish(synthesis.getVoices());
+    const timer = setTimeout(() => finish([]), VOICE_WAIT_MS);
+    synthesis.addEventListener('voiceschanged', handleVoicesChanged);
+  });
+};
+
+// The system voices a language can be read in
+export const getLanguageVoices = (voices: SpeechSynthesisVoice[], language: Language): SpeechSynthesisVoice[] => {
+  const { speech } = getLocale(language);
+  return voices.filter(v => v.lang.startsWith(speech.voiceLang));
+};
+
+const synthesisProvider: SpeechProvider = {
+  canSpeak: async (_, language) =>
+    isSynthesisSupported() && getLanguageVoices(await getVoices(), language).length > 0,
+
+  speak: async (text, language, settings) => {
+    const voices = await getVoices();
+    const utterance = new SpeechSynthesisUtterance(text);
+
+    const { speech } = getLocale(language);
+    utterance.lang = speech.lang;
+    const localVoices = getLanguageVoices(voices, language);
+    const choice = getVoiceChoice(settings, language);
+
+    // A parent's pick wins, then natural-sounding voices, then whatever the system has for the language
+    let selectedVoice = (choice?.voiceName && localVoices.find(v => v.name === choice.voiceName))
+      || localVoices.find(v => speech.preferredVoices.some(name => v.name.includes(name)));
+    let pitch = 1.0;
+    let rate = 1.0;
+
+    if (!selectedVoice && localVoices.length > 0) {
+      const fallback = localVoices[0];
+      const tuning = speech.fallbackTuning;
+      selectedVoice = fallback;
+      // A likely robotic system voice is tuned to be "rounder" and "softer"
+      if (tuning && (!tuning.voices || tuning.voices.some(name => fallback.name.toLowerCase().includes(name)))) {
+        pitch = tuning.pitch;
+        rate = tuning.rate;
+      }
+    }
+
+    utterance.voice = selectedVoice || null;
+    utterance.pitch = choice ? choice.pitch : pitch;
+    utterance.rate = choice ? choice.rate : rate;
+    utterance.volume = choice ? choice.volume : 1;
+
+    return new Promise((resolve) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      window.speechSynthesis.speak(utterance);
+    });
+  },
+
+  cancel: () => {
+    if (isSynthesisSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  },
+};
+
+// Bumped on every cancel so a stitched question stops between clips
+let clipRun = 0;
+let stopClip: (() => void) | null = null;
+
+// The recordings this build has, from the manifest the build writes. The
+// game ships without some recordings, and a question missing any of them is
+// better read by the default voice than stitched together with gaps.
+let clipManifest: Promise<Set<string>> | null = null;
+
+const loadClipManifest = (): Promise<Set<string>> => {
+  if (!clipManifest) {
+    clipManifest = fetch(`./${CLIP_MANIFEST_PATH}`)
+      .then(response => (response.ok ? response.json() : []))
+      .then((files: unknown) => new Set(Array.isArray(files) ? files.filter((file): file is string => typeof file === 'string') : []))
+      .catch(() => new Set<string>());
+  }
+  return clipManifest;
+};
+
+const playClip = (path: string, choice: VoiceChoice | null): Promise<void> => new Promise((resolve) => {
+  const audio = new Audio(`./${path}`);
+  audio.volume = choice?.volume ?? 1;
+  audio.playbackRate = choice?.rate ?? 1;
+  stopClip = () => {
+    audio.pause();
+    resolve();
+  };
+  audio.onended = () => resolve();
+  // A recording that won't play is skipped now and left to the default voice next time
+  audio.onerror = () => {
+    loadClipManifest().then(files => files.delete(path));
+    resolve();
+  };
+  audio.play().catch(() => resolve());
+});
+
+// Only questions are recorded, so praise stays silent on devices without voices
+const clipProvider: SpeechProvider = {
+  canSpeak: async (text, language) => {
+    const { clips } = getLocale(language);
+    const names = typeof Audio !== 'undefined' ? getClipNames(text, clips) : null;
+    if (!names) return false;
+    const files = await loadClipManifest();
+    return names.every(clip => files.has(getClipPath(clips, clip)));
+  },
+
+  speak: async (text, language, settings) => {
+    const { clips } = getLocale(language);
+    const choice = getVoiceChoice(settings, language);
+    const run = ++clipRun;
+    for (const clip of getClipNames(text, clips) ?? []) {
+      if (run !== clipRun) return;
+      await playClip(getClipPath(clips, clip), choice);
+    }
+  },
+
+  cancel: () => {
+    clipRun++;
+    stopClip?.();
+    stopClip = null;
+  },
+};
+
+const PROVIDERS: SpeechProvider[] = [synthesisProvider, clipProvider];
+
+// Told when reading aloud starts and stops, so game sounds can make room for it
+type SpeakingListener = (speaking: boolean) => void;
+const speakingListeners = new Set<SpeakingListener>();
+let speakingCount = 0;
+
+const whileSpeaking = async (speech: Promise<void>): Promise<void> => {
+  if (speakingCount++ === 0) speakingListeners.forEach(listener => listener(true));
+  try {
+    await speech;
+  } finally {
+    if (--speakingCount === 0) speakingListeners.forEach(listener => listener(false));
+  }
+};
+
+export const onSpeakingChange = (listener: SpeakingListener): (() => void) => {
+  speakingListeners.add(listener);
+  return () => {
+    speakingListeners.delete(listener);
+  };
+};
+
+interface SpeechRequest {
+  text: string;
+  language: Language;
+  settings: VoiceSettings;
+}
+
+const speakNow = async ({ text, language, settings }: SpeechRequest, isCancelled: () => boolean): Promise<void> => {
+  if (settings.muted) return;
+
+  for (const provider of PROVIDERS) {
+    if (await provider.canSpeak(text, language)) {
+      // Checking can wait on the voice list, long enough to be cancelled meanwhile
+      if (isCancelled()) return;
+      return whileSpeaking(provider.speak(text, language, settings));
+    }
+  }
+  if (isCancelled()) return;
+
+  // Nothing suits the language: the browser's default voice beats silence
+  if (isSynthesisSupported()) {
+    return whileSpeaking(synthesisProvider.speak(text, language, settings));
+  }
+  console.warn('No speech available for', language);
+};
+
+// Everything the game says goes through one queue, so nothing is read over anything else
+const speechQueue = createSpeechQueue<SpeechRequest>(speakNow, () => {
+  PROVIDERS.forEach(provider => provider.cancel());
+});
+
+export const cancelSpeech = () => {
+  speechQueue.clear();
+};
+
+// Stops any ongoing speech and reads the text now.
+// Resolves once the text has been spoken (or cut off)
+export const speakText = (text: string, language: Language, settings: VoiceSettings = DEFAULT_VOICE_SETTINGS): Promise<void> =>
+  speechQueue.interrupt({ text, language, settings });
+
+// Reads the text once everything already playing or queued has finished
+export const queueSpeech = (text: string, language: Language, settings: VoiceSettings = DEFAULT_VOICE_SETTINGS): QueuedSpeech =>
+  speechQueue.enqueue({ text, language, settings });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createSpeechQueue } from './speechQueue';
+
+// Records what was read; each item plays until `finish` (or a stop) ends it
+const fakeSpeech = () => {
+  const log: string[] = [];
+  const playing = new Map<string, () => void>();
+  const queue = createSpeechQueue<string>(
+    (text, isCancelled) => new Promise<void>(resolve => {
+      if (isCancelled()) return resolve();
+      log.push(`start ${text}`);
+      playing.set(text, () => {
+        log.push(`end ${text}`);
+        playing.delete(text);
+        resolve();
+      });
+    }),
+    () => {
+      for (const [text, end] of playing) {
+        log.push(`stop ${text}`);
+        playing.delete(text);
+        end();
+      }
+    },
+  );
+  const finish = async (text: string) => {
+    playing.get(text)?.();
+    await flush();
+  };
+  return { queue, log, finish };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createSpeechQueue', () => {
+  it('reads the next question only after the compliment', async () => {
+    const { queue, log, finish } = fakeSpeech();
+    queue.interrupt('Great job!');
+    queue.enqueue('7 times 8');
+    await flush();
+    expect(log).toEqual(['start Great job!']);
+    await finish('Great job!');
+    expect(log).toEqual(['start Great job!', 'end Great job!', 'start 7 times 8']);
+  });
+
+  it('cuts off whatever is playing when interrupted', async () => {
+    const { queue, log } = fakeSpeech();
+    queue.enqueue('7 times 8');
+    queue.enqueue('6 times 9');
+    await flush();
+    queue.interrupt('Good!');
+    await flush();
+    expect(log).toEqual(['start 7 times 8', 'stop 7 times 8', 'end 7 times 8', 'start Good!']);
+  });
+
+  it('skips cancelled items and keeps going', async () => {
+    const { queue, log, finish } = fakeSpeech();
+    queue.interrupt('Good!');
+    const first = queue.enqueue('7 times 8');
+    // StrictMode runs the effect twice: the first copy is cancelled straight away
+    first.cancel();
+    const second = queue.enqueue('7 times 8');
+    await flush();
+    await finish('Good!');
+    await first.done;
+    expect(log).toEqual(['start Good!', 'end Good!', 'start 7 times 8']);
+    second.cancel();
+    await second.done;
+    expect(log[log.length - 1]).toBe('end 7 times 8');
+  });
+
+  it('does not start speech that was cleared while it was getting ready', async () => {
+    const { queue, log } = fakeSpeech();
+    queue.enqueue('7 times 8');
+    queue.clear();
+    await flush();
+    expect(log).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+// ============================================================================
+// SPEECH QUEUE
+// ============================================================================
+
+// Something waiting its turn to be read out
+export interface QueuedSpeech {
+  // Resolves once it has been read, skipped or cut off
+  done: Promise<void>;
+  // Drops it from the queue, or stops it if it's already being read
+  cancel: () => void;
+}
+
+export interface SpeechQueue<T> {
+  // Stops what's playing, drops everything queued and reads `item` right away
+  interrupt: (item: T) => Promise<void>;
+  // Reads `item` after everything already playing or queued
+  enqueue: (item: T) => QueuedSpeech;
+  // Stops what's playing and drops everything queued
+  clear: () => void;
+}
+
+// `play` is told when it has been cancelled, so a slow start (e.g. waiting for
+// voices) doesn't begin speaking after the fact; `stop` cuts off what's playing.
+export const createSpeechQueue = <T>(
+  play: (item: T, isCancelled: () => boolean) => Promise<void>,
+  stop: () => void,
+): SpeechQueue<T> => {
+  let tail: Promise<void> = Promise.resolve();
+  // Bumped on every clear, so items queued before it are skipped
+  let generation = 0;
+  let playing: symbol | null = null;
+
+  const clear = () => {
+    generation++;
+    tail = Promise.resolve();
+    playing = null;
+    stop();
+  };
+
+  const enqueue = (item: T): QueuedSpeech => {
+    const id = Symbol();
+    const itemGeneration = generation;
+    let cancelled = false;
+    const isCancelled = () => cancelled || itemGeneration !== generation;
+
+    const done = tail.then(async () => {
+      if (isCancelled()) return;
+      playing = id;
+      try {
+        await play(item, isCancelled);
+      } finally {
+        if (playing === id) playing = null;
+      }
+    });
+    // A failed item must not hold up the rest
+    tail = done.catch(() => undefined);
+
+    return {
+      done,
+      cancel: () => {
+        cancelled = true;
+        if (playing === id) clear();
+      },
+    };
+  };
+
+  const interrupt = (item: T): Promise<void> => {
+    clear();
+    return enqueue(item).done;
+  };
+
+  return { interrupt, enqueue, clear };
+};
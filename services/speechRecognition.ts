@@ -0,0 +1,92 @@
+import { Language } from '../types';
+import { getLocale } from './i18n';
+import { parseSpokenNumber } from './spokenNumbers';
+
+// ============================================================================
+// SPEECH RECOGNITION (Web Speech API)
+// ============================================================================
+// TypeScript's DOM types don't include speech recognition yet, so only the
+// parts used here are described. Chrome and Safari still prefix it.
+
+interface RecognitionAlternative {
+  transcript: string;
+}
+
+interface RecognitionEvent {
+  results: ArrayLike<ArrayLike<RecognitionAlternative>>;
+}
+
+interface Recognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  // Also fires after errors such as silence or a denied microphone
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+const getRecognitionConstructor = (): RecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => getRecognitionConstructor() !== undefined;
+
+// Listens for one answer. `onResult` gets the first alternative that parses as a
+// number (or null with the best transcript), and `onEnd` always follows.
+// Returns a function that stops listening without reporting anything.
+export const listenForNumber = (
+  language: Language,
+  onResult: (value: number | null, transcript: string) => void,
+  onEnd: () => void,
+): (() => void) => {
+  const Constructor = getRecognitionConstructor();
+  if (!Constructor) {
+    onEnd();
+    return () => {};
+  }
+
+  const { speech, numbers } = getLocale(language);
+  const recognition = new Constructor();
+  recognition.lang = speech.lang;
+  recognition.interimResults = false;
+  // Recognizers often hear "fifty six" as "fifty sex"; later guesses may be right
+  recognition.maxAlternatives = 5;
+
+  let stopped = false;
+
+  recognition.onresult = (event) => {
+    if (stopped || event.results.length === 0) return;
+    const alternatives = Array.from(event.results[0]);
+    for (const { transcript } of alternatives) {
+      const value = parseSpokenNumber(transcript, numbers);
+      if (value !== null) {
+        onResult(value, transcript);
+        return;
+      }
+    }
+    onResult(null, alternatives[0]?.transcript ?? '');
+  };
+  recognition.onend = () => {
+    if (!stopped) onEnd();
+  };
+
+  try {
+    recognition.start();
+  } catch (error) {
+    // Already started or no microphone permission
+    console.warn('Speech recognition could not start:', error);
+    onEnd();
+    return () => {};
+  }
+
+  return () => {
+    stopped = true;
+    recognition.abort();
+  };
+};
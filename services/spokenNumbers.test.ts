@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getLocale } from './i18n';
+import { parseSpokenNumber } from './spokenNumbers';
+
+const english = getLocale('English').numbers;
+const hebrew = getLocale('Hebrew').numbers;
+const russian = getLocale('Russian').numbers;
+
+describe('parseSpokenNumber', () => {
+  it('understands fifty-six in every language', () => {
+    expect(parseSpokenNumber('fifty-six', english)).toBe(56);
+    expect(parseSpokenNumber('חמישים ושש', hebrew)).toBe(56);
+    expect(parseSpokenNumber('пятьдесят шесть', russian)).toBe(56);
+  });
+
+  it('passes digits straight through', () => {
+    expect(parseSpokenNumber('56', english)).toBe(56);
+    expect(parseSpokenNumber('144.', hebrew)).toBe(144);
+  });
+
+  it('reads the largest answers in the game', () => {
+    expect(parseSpokenNumber('one hundred forty four', english)).toBe(144);
+    expect(parseSpokenNumber('a hundred and forty-four', english)).toBe(144);
+    expect(parseSpokenNumber('מאה ארבעים וארבע', hebrew)).toBe(144);
+    expect(parseSpokenNumber('сто сорок четыре', russian)).toBe(144);
+  });
+
+  it('reads teens, including two-word Hebrew ones', () => {
+    expect(parseSpokenNumber('Eighteen', english)).toBe(18);
+    expect(parseSpokenNumber('שמונה עשרה', hebrew)).toBe(18);
+    expect(parseSpokenNumber('שנים עשר', hebrew)).toBe(12);
+    expect(parseSpokenNumber('восемнадцать', russian)).toBe(18);
+  });
+
+  it('reads zero and small numbers', () => {
+    expect(parseSpokenNumber('zero', english)).toBe(0);
+    expect(parseSpokenNumber('שלוש', hebrew)).toBe(3);
+    expect(parseSpokenNumber('две', russian)).toBe(2);
+  });
+
+  it('rejects numbers spoken out of order', () => {
+    expect(parseSpokenNumber('five six', english)).toBeNull();
+    expect(parseSpokenNumber('six fifty', english)).toBeNull();
+    expect(parseSpokenNumber('hundred hundred', english)).toBeNull();
+  });
+
+  it('rejects anything that is not just a number', () => {
+    expect(parseSpokenNumber('', english)).toBeNull();
+    expect(parseSpokenNumber('and', english)).toBeNull();
+    expect(parseSpokenNumber('I think fifty', english)).toBeNull();
+    expect(parseSpokenNumber('fifty six', russian)).toBeNull();
+  });
+
+  it('does not mistake words every object knows for numbers', () => {
+    expect(parseSpokenNumber('constructor', english)).toBeNull();
+    expect(parseSpokenNumber('toString', english)).toBeNull();
+    expect(parseSpokenNumber('וconstructor', hebrew)).toBeNull();
+  });
+});
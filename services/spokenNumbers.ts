@@ -0,0 +1,99 @@
+// ============================================================================
+// SPOKEN NUMBERS (speech recognition transcripts -> numbers)
+// ============================================================================
+// Turns "fifty-six", "חמישים ושש" or "пятьдесят шесть" into 56. Each locale
+// catalog supplies its number words; the parsing itself knows no language.
+
+export interface NumberVocabulary {
+  // Single words or short phrases ("שלוש עשרה") and their value
+  words: Record<string, number>;
+  // Words that multiply what came before ("hundred")
+  multipliers?: Record<string, number>;
+  // Words that carry no value ("and", "a")
+  fillers?: string[];
+  // Letters glued to the front of a number word, like the Hebrew "ו" (and)
+  prefixes?: string[];
+}
+
+// Longest phrase, in words, that a vocabulary may contain
+const MAX_PHRASE_WORDS = 2;
+
+const tokenize = (transcript: string): string[] =>
+  transcript
+    .toLowerCase()
+    .replace(/[-‐–—,.!?:;"'׳״]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Only the vocabulary's own words: "constructor" is not a number
+const getOwn = (record: Record<string, number> | undefined, key: string): number | undefined =>
+  record && Object.hasOwn(record, key) ? record[key] : undefined;
+
+const lookupWord = (word: string, vocabulary: NumberVocabulary): number | undefined => {
+  const value = getOwn(vocabulary.words, word);
+  if (value !== undefined) {
+    return value;
+  }
+  for (const prefix of vocabulary.prefixes ?? []) {
+    const unprefixed = word.startsWith(prefix) ? getOwn(vocabulary.words, word.slice(prefix.length)) : undefined;
+    if (unprefixed !== undefined) {
+      return unprefixed;
+    }
+  }
+  return undefined;
+};
+
+// Nothing smaller than this may follow a value: 50 can take a 6, but 6 can't take a 50
+const getPlace = (value: number): number => {
+  if (value >= 100) return 100;
+  if (value >= 20) return 10;
+  return 1;
+};
+
+export const parseSpokenNumber = (transcript: string, vocabulary: NumberVocabulary): number | null => {
+  const tokens = tokenize(transcript);
+
+  // Most recognizers already return digits
+  const digits = tokens.filter(t => /^\d+$/.test(t));
+  if (digits.length === 1 && tokens.every(t => /^\d+$/.test(t) || vocabulary.fillers?.includes(t))) {
+    return Number(digits[0]);
+  }
+
+  let total = 0;
+  let current = 0;
+  let lastPlace = Infinity;
+  let foundNumber = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const multiplier = getOwn(vocabulary.multipliers, tokens[i]);
+    if (multiplier !== undefined) {
+      // "hundred" needs a fresh count in front of it (or nothing, as in "a hundred")
+      if ((current === 0 && foundNumber) || total >= multiplier) return null;
+      total += (current || 1) * multiplier;
+      current = 0;
+      lastPlace = multiplier;
+      foundNumber = true;
+      continue;
+    }
+
+    let value: number | undefined;
+    for (let length = Math.min(MAX_PHRASE_WORDS, tokens.length - i); length > 0 && value === undefined; length--) {
+      value = lookupWord(tokens.slice(i, i + length).join(' '), vocabulary);
+      if (value !== undefined) {
+        i += length - 1;
+      }
+    }
+
+    if (value === undefined) {
+      if (vocabulary.fillers?.includes(tokens[i])) continue;
+      // Anything else means this wasn't just a number
+      return null;
+    }
+    if (value >= lastPlace) return null;
+    current += value;
+    lastPlace = getPlace(value);
+    foundNumber = true;
+  }
+
+  return foundNumber ? total + current : null;
+};
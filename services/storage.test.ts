@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Difficulty } from '../types';
+import { getStartingLevel } from './adaptiveDifficulty';
+import { loadSaveData, SAVE_VERSION } from './storage';
+
+const stubSave = (data: unknown) => {
+  const raw = JSON.stringify(data);
+  vi.stubGlobal('window', { localStorage: { getItem: () => raw } });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadSaveData', () => {
+  it('turns a version 1 session into the first profile', () => {
+    stubSave({
+      version: 1,
+      gameState: 'playing',
+      difficulty: Difficulty.Moderate,
+      robuxScore: 120,
+      progress: { correctStreak: 2, wrongStreak: 0, correctAnswersCount: 14, difficultyLevel: 2, lastQuestion: null, introDismissed: true, sessionStartedAt: 1000 },
+    });
+    const save = loadSaveData();
+
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.profiles).toHaveLength(1);
+    expect(save.activeProfileId).toBe(save.profiles[0].id);
+    expect(save.profiles[0]).toMatchObject({ name: 'Player 1', gameState: 'playing', difficulty: Difficulty.Moderate, robuxScore: 120 });
+  });
+
+  // The adaptive level a version 1 save resumes at, given its old `difficultyLevel`
+  const loadLevel = (difficultyLevel: unknown): number | undefined => {
+    stubSave({ version: 1, gameState: 'playing', progress: { difficultyLevel } });
+    return loadSaveData().profiles[0].progress?.adaptive.level;
+  };
+
+  it('carries old difficulty levels over to the same difficulty', () => {
+    // Where Easy, Moderate and Hard used to start
+    expect(loadLevel(0)).toBe(getStartingLevel(Difficulty.Easy));
+    expect(loadLevel(2)).toBe(getStartingLevel(Difficulty.Moderate));
+    expect(loadLevel(5)).toBe(getStartingLevel(Difficulty.Hard));
+    // Eased-off levels land between the starts around them
+    expect(loadLevel(1)).toBe((getStartingLevel(Difficulty.Easy) + getStartingLevel(Difficulty.Moderate)) / 2);
+    expect(loadLevel(3)).toBeGreaterThan(getStartingLevel(Difficulty.Moderate));
+    expect(loadLevel(3)).toBeLessThan(loadLevel(4));
+    expect(loadLevel(4)).toBeLessThan(getStartingLevel(Difficulty.Hard));
+    // Nothing the old game could reach goes past Hard
+    expect(loadLevel(9)).toBe(getStartingLevel(Difficulty.Hard));
+  });
+
+  it('starts damaged or missing old levels at Easy', () => {
+    for (const difficultyLevel of [undefined, null, 'hard', -3, Number.NaN, {}]) {
+      expect(loadLevel(difficultyLevel)).toBe(getStartingLevel(Difficulty.Easy));
+    }
+  });
+
+  it('starts fresh on a save from a newer version', () => {
+    stubSave({ version: SAVE_VERSION + 1, profiles: [] });
+    expect(loadSaveData().profiles).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { AnswerRecord, Difficulty, FactStats, GameProgress, GameRecord, GameState, FactPair, MasteryMap, PersonalBests, Profile, UnlockedAchievements } from '../types';
+import { BLITZ_DURATION_MS, GAME_MODES, isGameMode } from './gameModes';
+import { MAX_ANSWERS } from './answerLog';
+import { sanitizeRewardRules } from './rewardRules';
+import { sanitizeVoiceSettings } from './voiceSettings';
+import { sanitizeAccessibility } from './accessibility';
+import { sanitizeThemeId } from './themes';
+import { sanitizeSoundSettings } from './soundSettings';
+import { sanitizeAdaptiveState } from './adaptiveDifficulty';
+import { sanitizeTableSelection } from './tableSelection';
+import { isQuestionType, sanitizeQuestionTypes } from './questionTypes';
+import { MISCONCEPTIONS } from './distractors';
+import { ACHIEVEMENT_IDS } from './achievements';
+import { DEFAULT_LANGUAGE, isLanguage } from './i18n';
+import { getFactKey, MASTERED_BOX, MAX_FACTOR } from './mastery';
+import { AVATARS, createProfile, MAX_HISTORY, normalizeProfileName } from './profiles';
+
+// ============================================================================
+// VERSIONED SAVE DATA (localStorage)
+// ============================================================================
+
+const STORAGE_KEY = 'robux-multiplication-save';
+export const SAVE_VERSION = 2;
+
+export interface SaveData {
+  version: number;
+  activeProfileId: string | null;
+  profiles: Profile[];
+  // Four digits guarding the parent dashboard, null until a parent sets one
+  parentPin: string | null;
+}
+
+export const createDefaultSaveData = (): SaveData => ({
+  version: SAVE_VERSION,
+  activeProfileId: null,
+  profiles: [],
+  parentPin: null,
+});
+
+export const isValidPin = (pin: unknown): pin is string =>
+  typeof pin === 'string' && /^\d{4}$/.test(pin);
+
+// Each entry upgrades data saved by version N to version N + 1.
+// Saves written before versioning existed are treated as version 0.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (data) => ({ ...data, version: 1 }),
+  // Version 1 held a single global session; it becomes the first profile.
+  1: ({ version, ...session }) => {
+    const profile = { ...createProfile('Player 1', AVATARS[0]), ...session };
+    return { version: 2, activeProfileId: profile.id, profiles: [profile] };
+  },
+};
+
+const migrate = (data: Record<string, unknown>): Record<string, unknown> => {
+  let version = typeof data.version === 'number' ? data.version : 0;
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    data = step(data);
+    version++;
+  }
+  return data;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const toCount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0;
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const sanitizeFactPair = (value: unknown): FactPair | null => {
+  if (!isObject(value)) return null;
+  const { num1, num2 } = value;
+  if (!isInteger(num1) || !isInteger(num2)) return null;
+  return { num1, num2 };
+};
+
+const sanitizeProgress = (value: unknown): GameProgress | null => {
+  if (!isObject(value)) return null;
+  return {
+    correctStreak: toCount(value.correctStreak),
+    wrongStreak: toCount(value.wrongStreak),
+    correctAnswersCount: toCount(value.correctAnswersCount),
+    adaptive: sanitizeAdaptiveState(value.adaptive, toCount(value.difficultyLevel)),
+    lastQuestion: sanitizeFactPair(value.lastQuestion),
+    introDismissed: value.introDismissed === true,
+    sessionStartedAt: toCount(value.sessionStartedAt),
+    timeLeftMs: typeof value.timeLeftMs === 'number' ? Math.min(toCount(value.timeLeftMs), BLITZ_DURATION_MS) : BLITZ_DURATION_MS,
+  };
+};
+
+const sanitizeGameRecord = (value: unknown): GameRecord | null => {
+  if (!isObject(value)) return null;
+  return {
+    mode: isGameMode(value.mode) ? value.mode : 'classic',
+    difficulty: oneOf(value.difficulty, Object.values(Difficulty), Difficulty.Easy),
+    language: isLanguage(value.language) ? value.language : DEFAULT_LANGUAGE,
+    robuxScore: toCount(value.robuxScore),
+    won: value.won === true,
+    finishedAt: toCount(value.finishedAt),
+  };
+};
+
+const sanitizeFactStats = (value: unknown): FactStats | null => {
+  if (!isObject(value)) return null;
+  const attempts = toCount(value.attempts);
+  if (attempts === 0) return null;
+  return {
+    attempts,
+    correct: Math.min(toCount(value.correct), attempts),
+    averageResponseMs: toCount(value.averageResponseMs),
+    box: Math.min(toCount(value.box), MASTERED_BOX),
+    lastSeenAt: toCount(value.lastSeenAt),
+    dueAt: toCount(value.dueAt),
+  };
+};
+
+const sanitizeAnswerRecord = (value: unknown): AnswerRecord | null => {
+  if (!isObject(value)) return null;
+  const { num1, num2 } = value;
+  if (!isInteger(num1) || !isInteger(num2)) return null;
+  const given = typeof value.given === 'number' && Number.isFinite(value.given) ? value.given : null;
+  return {
+    num1,
+    num2,
+    type: isQuestionType(value.type) ? value.type : 'multiplication',
+    given,
+    inputMode: oneOf(value.inputMode, ['choice', 'typed', 'voice'], 'choice'),
+    correct: value.correct === true,
+    responseMs: toCount(value.responseMs),
+    scoreAfter: toCount(value.scoreAfter),
+    misconception: value.correct === true ? null : oneOf(value.misconception, MISCONCEPTIONS, 'other'),
+    sessionStartedAt: toCount(value.sessionStartedAt),
+    answeredAt: toCount(value.answeredAt),
+  };
+};
+
+const sanitizePersonalBests = (value: unknown): PersonalBests => {
+  const bests: PersonalBests = {};
+  if (!isObject(value)) return bests;
+  for (const mode of Object.keys(GAME_MODES)) {
+    if (isGameMode(mode) && typeof value[mode] === 'number' && value[mode] > 0) {
+      bests[mode] = toCount(value[mode]);
+    }
+  }
+  return bests;
+};
+
+const sanitizeAchievements = (value: unknown): UnlockedAchievements => {
+  const unlocked: UnlockedAchievements = {};
+  if (!isObject(value)) return unlocked;
+  for (const id of ACHIEVEMENT_IDS) {
+    if (typeof value[id] === 'number' && value[id] > 0) {
+      unlocked[id] = toCount(value[id]);
+    }
+  }
+  return unlocked;
+};
+
+// Only well-formed keys for facts up to 12x12 are kept
+const sanitizeMastery = (value: unknown): MasteryMap => {
+  const mastery: MasteryMap = {};
+  if (!isObject(value)) return mastery;
+  for (const [key, entry] of Object.entries(value)) {
+    const match = /^(\d+)x(\d+)$/.exec(key);
+    const stats = sanitizeFactStats(entry);
+    if (!match || !stats) continue;
+    const num1 = Number(match[1]);
+    const num2 = Number(match[2]);
+    if (num1 < 1 || num2 < 1 || num1 > MAX_FACTOR || num2 > MAX_FACTOR) continue;
+    mastery[getFactKey(num1, num2)] = stats;
+  }
+  return mastery;
+};
+
+// Rebuilds a profile field by field so a partially corrupted save (or an
+// imported backup) still restores whatever is valid instead of crashing the game.
+export const sanitizeProfile = (value: unknown): Profile | null => {
+  if (!isObject(value) || typeof value.id !== 'string' || !value.id) return null;
+  const defaults = createProfile('', AVATARS[0]);
+  const name = typeof value.name === 'string' ? normalizeProfileName(value.name) : '';
+  const gameState = oneOf<GameState>(value.gameState, ['selecting_difficulty', 'playing', 'won', 'time_up'], defaults.gameState);
+  const progress = sanitizeProgress(value.progress);
+  const history = Array.isArray(value.history) ? value.history.map(sanitizeGameRecord) : [];
+  return {
+    id: value.id,
+    name: name || 'Player',
+    avatar: typeof value.avatar === 'string' && value.avatar ? value.avatar : defaults.avatar,
+    // A game can't be resumed without its progress, so fall back to the menu.
+    gameState: gameState === 'playing' && !progress ? 'selecting_difficulty' : gameState,
+    mode: isGameMode(value.mode) ? value.mode : defaults.mode,
+    difficulty: oneOf(value.difficulty, Object.values(Difficulty), defaults.difficulty),
+    language: isLanguage(value.language) ? value.language : defaults.language,
+    robuxScore: toCount(value.robuxScore),
+    progress,
+    history: history.filter((record): record is GameRecord => record !== null).slice(-MAX_HISTORY),
+    personalBests: sanitizePersonalBests(value.personalBests),
+    tableSelection: sanitizeTableSelection(value.tableSelection),
+    questionTypes: sanitizeQuestionTypes(value.questionTypes),
+    mastery: sanitizeMastery(value.mastery),
+    answers: Array.isArray(value.answers)
+      ? value.answers.map(sanitizeAnswerRecord).filter((a): a is AnswerRecord => a !== null).slice(-MAX_ANSWERS)
+      : [],
+    rules: sanitizeRewardRules(value.rules),
+    voice: sanitizeVoiceSettings(value.voice),
+    achievements: sanitizeAchievements(value.achievements),
+    accessibility: sanitizeAccessibility(value.accessibility),
+    theme: sanitizeThemeId(value.theme),
+    sound: sanitizeSoundSettings(value.sound),
+  };
+};
+
+const sanitizeSaveData = (data: Record<string, unknown>): SaveData => {
+  const profiles: Profile[] = [];
+  if (Array.isArray(data.profiles)) {
+    for (const entry of data.profiles) {
+      const profile = sanitizeProfile(entry);
+      if (profile && !profiles.some(p => p.id === profile.id)) {
+        profiles.push(profile);
+      }
+    }
+  }
+  const { activeProfileId } = data;
+  return {
+    version: SAVE_VERSION,
+    activeProfileId: typeof activeProfileId === 'string' && profiles.some(p => p.id === activeProfileId) ? activeProfileId : null,
+    profiles,
+    parentPin: isValidPin(data.parentPin) ? data.parentPin : null,
+  };
+};
+
+export const loadSaveData = (): SaveData => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return createDefaultSaveData();
+    }
+    const parsed = JSON.parse(raw);
+    if (!isObject(parsed) || (typeof parsed.version === 'number' && parsed.version > SAVE_VERSION)) {
+      console.warn('Ignoring unrecognised save data.');
+      return createDefaultSaveData();
+    }
+    return sanitizeSaveData(migrate(parsed));
+  } catch (err) {
+    console.warn('Could not restore saved game, starting fresh.', err);
+    return createDefaultSaveData();
+  }
+};
+
+export const saveSaveData = (data: SaveData) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, version: SAVE_VERSION }));
+  } catch (err) {
+    // Storage can be full or disabled (e.g. private browsing); the game still works without it.
+    console.warn('Could not save game progress.', err);
+  }
+};
@@ -0,0 +1,31 @@
+import { TableSelection } from '../types';
+import { MAX_FACTOR } from './mastery';
+
+// ============================================================================
+// TABLE PRACTICE SELECTION
+// ============================================================================
+
+export const DEFAULT_TABLE_SELECTION: TableSelection = {
+  tables: [],
+  maxMultiplier: null,
+};
+
+// Smallest useful "multiply up to" value; anything lower is all x1 facts
+export const MIN_MULTIPLIER = 2;
+
+export const isValidTableSelection = (selection: TableSelection): boolean =>
+  selection.tables.length > 0;
+
+export const sanitizeTableSelection = (value: unknown): TableSelection => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_TABLE_SELECTION;
+  }
+  const data = value as Record<string, unknown>;
+  const tables = Array.isArray(data.tables)
+    ? Array.from(new Set(data.tables.filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= MAX_FACTOR))).sort((a, b) => a - b)
+    : [];
+  const maxMultiplier = Number.isInteger(data.maxMultiplier)
+    ? Math.min(MAX_FACTOR, Math.max(MIN_MULTIPLIER, data.maxMultiplier as number))
+    : null;
+  return { tables, maxMultiplier };
+};
@@ -0,0 +1,39 @@
+import { AnswerRecord } from '../types';
+import { EngineEnv } from './gameEngine';
+
+// ============================================================================
+// TEST HELPERS (shared fixtures for the service tests)
+// ============================================================================
+
+// Small seeded PRNG (mulberry32) so every failure can be replayed
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Seeded randomness and a clock that moves a second per reading
+export const createEnv = (seed: number): EngineEnv => {
+  let time = 0;
+  return { random: seededRandom(seed), now: () => (time += 1000) };
+};
+
+// 7 x 8 answered by picking an option; a wrong answer is a near miss
+export const makeAnswer = (changes: Partial<AnswerRecord> = {}): AnswerRecord => {
+  const correct = changes.correct ?? true;
+  return {
+    num1: 7,
+    num2: 8,
+    type: 'multiplication',
+    given: correct ? 56 : 54,
+    inputMode: 'choice',
+    correct,
+    responseMs: 1500,
+    scoreAfter: 10,
+    misconception: correct ? null : 'near_miss',
+    sessionStartedAt: 1000,
+    answeredAt: 2000,
+    ...changes,
+  };
+};
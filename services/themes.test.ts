@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, getThemeRewardName, sanitizeThemeId, THEME_IDS } from './themes';
+
+describe('sanitizeThemeId', () => {
+  it('keeps known themes and falls back for anything else', () => {
+    for (const id of THEME_IDS) {
+      expect(sanitizeThemeId(id)).toBe(id);
+    }
+    expect(sanitizeThemeId(undefined)).toBe(DEFAULT_THEME);
+    expect(sanitizeThemeId('neon')).toBe(DEFAULT_THEME);
+  });
+});
+
+describe('getThemeRewardName', () => {
+  it("follows the theme while the reward still has the old theme's name", () => {
+    expect(getThemeRewardName('Robux', 'robux', 'space')).toBe('stars');
+    expect(getThemeRewardName('stars', 'space', 'plain')).toBe('points');
+  });
+
+  it('leaves a name the parent chose alone', () => {
+    expect(getThemeRewardName('minutes of screen time', 'robux', 'animals')).toBe('minutes of screen time');
+    // Stars picked as a preset under another theme are still the parent's choice
+    expect(getThemeRewardName('stars', 'robux', 'animals')).toBe('stars');
+  });
+});
@@ -0,0 +1,30 @@
+import { ThemeId } from '../types';
+
+// ============================================================================
+// THEMES
+// ============================================================================
+// Which skin a player sees. The artwork itself lives in components/themes.tsx;
+// this is the part saved with the profile.
+
+export const THEME_IDS: ThemeId[] = ['robux', 'space', 'animals', 'plain'];
+
+export const DEFAULT_THEME: ThemeId = 'robux';
+
+// What each theme calls the reward when a parent hasn't named it themselves
+export const THEME_CURRENCY_NAMES: Record<ThemeId, string> = {
+  robux: 'Robux',
+  space: 'stars',
+  animals: 'paws',
+  plain: 'points',
+};
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+  THEME_IDS.includes(value as ThemeId);
+
+export const sanitizeThemeId = (value: unknown): ThemeId =>
+  isThemeId(value) ? value : DEFAULT_THEME;
+
+// A reward still called after the old theme's currency follows the new theme;
+// one a parent renamed is theirs and stays.
+export const getThemeRewardName = (rewardName: string, from: ThemeId, to: ThemeId): string =>
+  rewardName === THEME_CURRENCY_NAMES[from] ? THEME_CURRENCY_NAMES[to] : rewardName;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { FactStats, Profile } from '../types';
+import { createProfile } from './profiles';
+import { answersToCsv, copyAsNewProfile, EXPORT_VERSION, exportProfileJson, findMergeTarget, masteryToCsv, mergeProfiles, parseProfileExport, toCsv } from './transfer';
+import { makeAnswer } from './testUtils';
+
+
+const makeStats = (lastSeenAt: number, box: number): FactStats => ({
+  attempts: 4,
+  correct: 3,
+  averageResponseMs: 2000,
+  box,
+  lastSeenAt,
+  dueAt: lastSeenAt + 1000,
+});
+
+const makeProfile = (changes: Partial<Profile>): Profile => ({ ...createProfile('Maya', '🦊'), ...changes });
+
+describe('JSON backups', () => {
+  it('round-trips a profile', () => {
+    const profile = makeProfile({ answers: [makeAnswer({ answeredAt: 2000 })], mastery: { '7x8': makeStats(2000, 2) }, robuxScore: 40 });
+    const result = parseProfileExport(exportProfileJson(profile, 5000));
+    expect(result).toEqual({ ok: true, profile, exportedAt: 5000 });
+  });
+
+  it('explains why a file was rejected', () => {
+    expect(parseProfileExport('not json')).toEqual({ ok: false, error: 'invalid_json' });
+    expect(parseProfileExport('{"hello": 1}')).toEqual({ ok: false, error: 'wrong_format' });
+    const backup = JSON.parse(exportProfileJson(makeProfile({})));
+    expect(parseProfileExport(JSON.stringify({ ...backup, version: EXPORT_VERSION + 1 }))).toEqual({ ok: false, error: 'newer_version' });
+    expect(parseProfileExport(JSON.stringify({ ...backup, profile: { name: 'No id' } }))).toEqual({ ok: false, error: 'invalid_profile' });
+  });
+
+  it('cleans up damaged fields instead of trusting them', () => {
+    const backup = JSON.parse(exportProfileJson(makeProfile({})));
+    backup.profile.robuxScore = -50;
+    backup.profile.answers = [makeAnswer({ answeredAt: 2000 }), { num1: 'x' }];
+    const result = parseProfileExport(JSON.stringify(backup));
+    expect(result.ok && result.profile.robuxScore).toBe(0);
+    expect(result.ok && result.profile.answers).toHaveLength(1);
+  });
+});
+
+describe('mergeProfiles', () => {
+  const tablet = makeProfile({
+    name: 'Maya',
+    answers: [makeAnswer({ answeredAt: 1000 }), makeAnswer({ answeredAt: 2000 })],
+    mastery: { '7x8': makeStats(2000, 1), '2x3': makeStats(1500, 4) },
+    personalBests: { blitz: 12 },
+    achievements: { first_win: 900 },
+    robuxScore: 30,
+  });
+  const laptop: Profile = {
+    ...tablet,
+    name: 'Maya L',
+    answers: [makeAnswer({ answeredAt: 2000 }), makeAnswer({ answeredAt: 3000, correct: false })],
+    mastery: { '7x8': makeStats(3000, 2) },
+    personalBests: { blitz: 9, beat_the_clock: 4 },
+    achievements: { first_win: 1200, streak_10: 2500 },
+    robuxScore: 55,
+  };
+
+  it('joins both histories without duplicates', () => {
+    const merged = mergeProfiles(tablet, laptop);
+    expect(merged.answers.map(a => a.answeredAt)).toEqual([1000, 2000, 3000]);
+    expect(merged.mastery['7x8'].box).toBe(2);
+    expect(merged.mastery['2x3'].box).toBe(4);
+    expect(merged.personalBests).toEqual({ blitz: 12, beat_the_clock: 4 });
+    expect(merged.achievements).toEqual({ first_win: 900, streak_10: 2500 });
+  });
+
+  it('keeps the fastest time where lower is better', () => {
+    const fast = { ...tablet, personalBests: { classic: 95_000, beat_the_clock: 210_000, blitz: 12 } };
+    const slow = { ...laptop, personalBests: { classic: 140_000, beat_the_clock: 180_000, blitz: 15 } };
+    const expected = { classic: 95_000, beat_the_clock: 180_000, blitz: 15 };
+    expect(mergeProfiles(fast, slow).personalBests).toEqual(expected);
+    expect(mergeProfiles(slow, fast).personalBests).toEqual(expected);
+  });
+
+  it('keeps the current game from the copy played last and the local name', () => {
+    expect(mergeProfiles(tablet, laptop)).toMatchObject({ id: tablet.id, name: 'Maya', robuxScore: 55 });
+    expect(mergeProfiles(laptop, tablet)).toMatchObject({ name: 'Maya L', robuxScore: 55 });
+  });
+
+  it('finds the same player created separately on each device', () => {
+    const laptopMaya = makeProfile({ name: 'maya', answers: [makeAnswer({ answeredAt: 500 })] });
+    const sam = makeProfile({ name: 'Sam' });
+    expect(laptopMaya.id).not.toBe(tablet.id);
+
+    const target = findMergeTarget([sam, laptopMaya], tablet);
+    expect(target).toBe(laptopMaya);
+    const merged = mergeProfiles(target, tablet);
+    expect(merged).toMatchObject({ id: laptopMaya.id, name: 'maya' });
+    expect(merged.answers.map(a => a.answeredAt)).toEqual([500, 1000, 2000]);
+  });
+
+  it('prefers the same profile over a namesake and finds nothing for a new player', () => {
+    const namesake = makeProfile({ name: 'Maya' });
+    expect(findMergeTarget([namesake, laptop], tablet)).toBe(laptop);
+    expect(findMergeTarget([makeProfile({ name: 'Sam' })], tablet)).toBeNull();
+  });
+
+  it('can keep an import as a separate player', () => {
+    const copy = copyAsNewProfile(laptop);
+    expect(copy.id).not.toBe(laptop.id);
+    expect(copy.answers).toEqual(laptop.answers);
+  });
+});
+
+describe('CSV reports', () => {
+  it('quotes awkward values and defuses formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', null, 3, true], ['=SUM(A1)', -2]])).toBe('"a,b","say ""hi""",,3,true\r\n\'=SUM(A1),-2\r\n');
+  });
+
+  it('lists every answer and every fact seen', () => {
+    const profile = makeProfile({ answers: [makeAnswer({ answeredAt: Date.UTC(2024, 0, 1), correct: false })], mastery: { '7x8': makeStats(0, 4) } });
+    expect(answersToCsv(profile).split('\r\n')[1]).toBe('Maya,2024-01-01T00:00:00.000Z,1970-01-01T00:00:01.000Z,7 x 8,54,false,choice,1500,near_miss,10');
+    expect(masteryToCsv(profile).split('\r\n')[1]).toBe('Maya,7x8,4,3,75,2000,4,true,');
+  });
+});
@@ -0,0 +1,204 @@
+import { AnswerRecord, FactStats, GameMode, GameRecord, Profile, UnlockedAchievements } from '../types';
+import { MAX_ANSWERS } from './answerLog';
+import { isNewPersonalBest } from './gameModes';
+import { isFactMastered } from './mastery';
+import { createProfile, MAX_HISTORY } from './profiles';
+import { formatQuestion } from './questionTypes';
+import { sanitizeProfile, SAVE_VERSION } from './storage';
+
+// ============================================================================
+// EXPORT AND IMPORT (moving a player between devices, results for teachers)
+// ============================================================================
+// A JSON backup holds one whole profile and can be merged into another
+// device's players. The CSV files are read-only reports for spreadsheets.
+
+const EXPORT_FORMAT = 'robux-multiplication-profile';
+export const EXPORT_VERSION = 1;
+
+export interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  // The save format the profile was written in
+  saveVersion: number;
+  exportedAt: number;
+  profile: Profile;
+}
+
+export type ImportError = 'invalid_json' | 'wrong_format' | 'newer_version' | 'invalid_profile';
+
+export type ImportResult =
+  | { ok: true; profile: Profile; exportedAt: number }
+  | { ok: false; error: ImportError };
+
+export const exportProfileJson = (profile: Profile, now: number = Date.now()): string => {
+  const data: ProfileExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    saveVersion: SAVE_VERSION,
+    exportedAt: now,
+    profile,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const parseProfileExport = (json: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'invalid_json' };
+  }
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'wrong_format' };
+  }
+  const { format, version, saveVersion, exportedAt, profile: savedProfile } = data as Record<string, unknown>;
+  if (format !== EXPORT_FORMAT || typeof version !== 'number') {
+    return { ok: false, error: 'wrong_format' };
+  }
+  // Written by a newer version of the game, which may store things differently
+  if (version > EXPORT_VERSION || (typeof saveVersion === 'number' && saveVersion > SAVE_VERSION)) {
+    return { ok: false, error: 'newer_version' };
+  }
+  const profile = sanitizeProfile(savedProfile);
+  if (!profile) {
+    return { ok: false, error: 'invalid_profile' };
+  }
+  return { ok: true, profile, exportedAt: typeof exportedAt === 'number' ? exportedAt : 0 };
+};
+
+// ----------------------------------------------------------------------------
+// Merging
+// ----------------------------------------------------------------------------
+
+const answerKey = (a: AnswerRecord) => `${a.answeredAt}:${a.num1}:${a.num2}:${a.type}:${a.given}`;
+const gameKey = (g: GameRecord) => `${g.finishedAt}:${g.mode}:${g.robuxScore}`;
+
+// Union of both lists, oldest first, without the entries both devices share
+const mergeBy = <T>(a: T[], b: T[], key: (item: T) => string, time: (item: T) => number, limit: number): T[] => {
+  const merged = new Map<string, T>();
+  for (const item of [...a, ...b]) {
+    merged.set(key(item), item);
+  }
+  return Array.from(merged.values()).sort((x, y) => time(x) - time(y)).slice(-limit);
+};
+
+const lastPlayedAt = (profile: Profile): number => Math.max(
+  0,
+  ...profile.answers.map(a => a.answeredAt),
+  ...profile.history.map(g => g.finishedAt),
+);
+
+const mergeMastery = (a: Profile['mastery'], b: Profile['mastery']): Profile['mastery'] => {
+  const merged: Record<string, FactStats> = { ...a };
+  for (const [key, stats] of Object.entries(b)) {
+    // The device that saw the fact last has the up-to-date review box
+    if (!merged[key] || stats.lastSeenAt > merged[key].lastSeenAt) {
+      merged[key] = stats;
+    }
+  }
+  return merged;
+};
+
+const mergeAchievements = (a: UnlockedAchievements, b: UnlockedAchievements): UnlockedAchievements => {
+  const merged: UnlockedAchievements = { ...a };
+  for (const [id, unlockedAt] of Object.entries(b) as [keyof UnlockedAchievements, number][]) {
+    merged[id] = Math.min(merged[id] ?? unlockedAt, unlockedAt);
+  }
+  return merged;
+};
+
+// Combines the same player's data from two devices. History is joined; the
+// current game and settings come from whichever copy was played last; the
+// name and avatar stay as they are on this device.
+export const mergeProfiles = (existing: Profile, incoming: Profile): Profile => {
+  const newer = lastPlayedAt(incoming) > lastPlayedAt(existing) ? incoming : existing;
+  const personalBests = { ...existing.personalBests };
+  for (const [mode, best] of Object.entries(incoming.personalBests) as [GameMode, number][]) {
+    // Fastest wins for timed modes, most answers for blitz
+    if (isNewPersonalBest(personalBests, mode, best)) {
+      personalBests[mode] = best;
+    }
+  }
+  return {
+    ...newer,
+    id: existing.id,
+    name: existing.name,
+    avatar: existing.avatar,
+    answers: mergeBy(existing.answers, incoming.answers, answerKey, a => a.answeredAt, MAX_ANSWERS),
+    history: mergeBy(existing.history, incoming.history, gameKey, g => g.finishedAt, MAX_HISTORY),
+    mastery: mergeMastery(existing.mastery, incoming.mastery),
+    personalBests,
+    achievements: mergeAchievements(existing.achievements, incoming.achievements),
+  };
+};
+
+// The player on this device an import most likely belongs to: the same
+// profile, or one with the same name that was created here separately
+export const findMergeTarget = (profiles: Profile[], incoming: Profile): Profile | null => {
+  const name = incoming.name.toLocaleLowerCase();
+  return profiles.find(p => p.id === incoming.id)
+    ?? profiles.find(p => p.name.toLocaleLowerCase() === name)
+    ?? null;
+};
+
+// Keeps both players when the parent doesn't want to merge
+export const copyAsNewProfile = (profile: Profile): Profile => ({
+  ...profile,
+  id: createProfile(profile.name, profile.avatar).id,
+});
+
+// ----------------------------------------------------------------------------
+// CSV reports
+// ----------------------------------------------------------------------------
+
+type CsvValue = string | number | boolean | null;
+
+const toCsvField = (value: CsvValue): string => {
+  if (value === null) return '';
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+const toIsoTime = (time: number): string | null => time > 0 ? new Date(time).toISOString() : null;
+
+export const answersToCsv = (profile: Profile): string => toCsv([
+  ['player', 'answered_at', 'session_started_at', 'question', 'answer_given', 'correct', 'input', 'response_ms', 'mistake', 'score_after'],
+  ...profile.answers.map(a => [
+    profile.name,
+    toIsoTime(a.answeredAt),
+    toIsoTime(a.sessionStartedAt),
+    formatQuestion(a),
+    a.given,
+    a.correct,
+    a.inputMode,
+    a.responseMs,
+    a.misconception,
+    a.scoreAfter,
+  ]),
+]);
+
+// One row per fact the player has seen, smallest first
+export const masteryToCsv = (profile: Profile): string => {
+  const facts = Object.entries(profile.mastery).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+  return toCsv([
+    ['player', 'fact', 'attempts', 'correct', 'accuracy_percent', 'average_response_ms', 'review_box', 'mastered', 'last_seen_at'],
+    ...facts.map(([key, stats]) => [
+      profile.name,
+      key,
+      stats.attempts,
+      stats.correct,
+      Math.round((stats.correct / stats.attempts) * 100),
+      stats.averageResponseMs,
+      stats.box,
+      isFactMastered(stats),
+      toIsoTime(stats.lastSeenAt),
+    ]),
+  ]);
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, VersusStyle } from '../types';
+import { canAnswer, createVersusReducer, createVersusState, VERSUS_TARGET, VersusState } from './versus';
+import { createEnv } from './testUtils';
+
+const reducer = createVersusReducer(createEnv(1));
+
+const start = (style: VersusStyle): VersusState =>
+  reducer(
+    createVersusState(style, [{ name: 'Ann', avatar: '🦊' }, { name: 'Ben', avatar: '🐼' }], Difficulty.Easy, 0),
+    { type: 'next_question' },
+  );
+
+const right = (state: VersusState) => state.question!.answer;
+const wrong = (state: VersusState) => state.question!.options.find(o => o.value !== state.question!.answer)!.value;
+
+describe('split screen', () => {
+  it('gives the point to the first correct tap', () => {
+    let state = start('split_screen');
+    state = reducer(state, { type: 'answer', player: 1, given: right(state) });
+    expect(state.pointTo).toBe(1);
+    expect(state.isAnswered).toBe(true);
+    expect(state.players.map(p => p.score)).toEqual([0, 1]);
+    // Too late for the other player
+    state = reducer(state, { type: 'answer', player: 0, given: right(state) });
+    expect(state.players.map(p => p.score)).toEqual([0, 1]);
+  });
+
+  it('locks out a wrong tap but lets the other player answer', () => {
+    let state = start('split_screen');
+    state = reducer(state, { type: 'answer', player: 0, given: wrong(state) });
+    expect(state.isAnswered).toBe(false);
+    expect(canAnswer(state, 0)).toBe(false);
+    expect(canAnswer(state, 1)).toBe(true);
+    state = reducer(state, { type: 'answer', player: 1, given: wrong(state) });
+    expect(state.isAnswered).toBe(true);
+    expect(state.pointTo).toBeNull();
+  });
+});
+
+describe('hot seat', () => {
+  it('only lets the current player answer and then passes the turn', () => {
+    let state = start('hot_seat');
+    expect(canAnswer(state, 1)).toBe(false);
+    state = reducer(state, { type: 'answer', player: 1, given: right(state) });
+    expect(state.players[1].score).toBe(0);
+
+    state = reducer(state, { type: 'answer', player: 0, given: wrong(state) });
+    expect(state.isAnswered).toBe(true);
+    state = reducer(state, { type: 'next_question' });
+    expect(state.turn).toBe(1);
+    expect(canAnswer(state, 1)).toBe(true);
+  });
+
+  it('keeps a separate streak for each player', () => {
+    let state = start('hot_seat');
+    for (let i = 0; i < 4; i++) {
+      const given = state.turn === 0 ? right(state) : wrong(state);
+      state = reducer(state, { type: 'answer', player: state.turn, given });
+      state = reducer(state, { type: 'next_question' });
+    }
+    expect(state.players.map(p => p.streak)).toEqual([2, 0]);
+    expect(state.players.map(p => p.score)).toEqual([2, 0]);
+  });
+});
+
+it('ends when a player reaches the target', () => {
+  let state = start('split_screen');
+  for (let i = 0; i < VERSUS_TARGET; i++) {
+    expect(state.winner).toBeNull();
+    state = reducer(state, { type: 'answer', player: 0, given: right(state) });
+    state = reducer(state, { type: 'next_question' });
+  }
+  expect(state.winner).toBe(0);
+  expect(canAnswer(state, 1)).toBe(false);
+});
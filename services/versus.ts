@@ -0,0 +1,124 @@
+import { Difficulty, Question, VersusStyle } from '../types';
+import { createInitialState, EngineEnv, GameEngineState, generateQuestion } from './gameEngine';
+import { DEFAULT_REWARD_RULES } from './rewardRules';
+import { DEFAULT_TABLE_SELECTION } from './tableSelection';
+import { DEFAULT_QUESTION_TYPES } from './questionTypes';
+
+// ============================================================================
+// VERSUS (two players on one device)
+// ============================================================================
+// Questions come from the single-player engine; this module only decides who
+// may answer and who scores. Versus games don't touch anyone's reward score.
+
+// Correct answers needed to win
+export const VERSUS_TARGET = 10;
+
+export interface VersusSetup {
+  style: VersusStyle;
+  // The two profiles playing, in seat order
+  playerIds: string[];
+  difficulty: Difficulty;
+}
+
+export interface VersusPlayer {
+  name: string;
+  avatar: string;
+  score: number;
+  streak: number;
+  // The option this player picked for the current question
+  selection: number | null;
+}
+
+export interface VersusState {
+  style: VersusStyle;
+  players: VersusPlayer[];
+  // Hot seat: the player whose turn it is
+  turn: number;
+  // Only used to pick questions
+  engine: GameEngineState;
+  question: Question | null;
+  isAnswered: boolean;
+  // Who won the point for the current question, if anyone
+  pointTo: number | null;
+  winner: number | null;
+}
+
+export type VersusAction =
+  | { type: 'next_question' }
+  | { type: 'answer'; player: number; given: number };
+
+export const createVersusState = (
+  style: VersusStyle,
+  players: { name: string; avatar: string }[],
+  difficulty: Difficulty,
+  now: number,
+): VersusState => ({
+  style,
+  players: players.map(({ name, avatar }) => ({ name, avatar, score: 0, streak: 0, selection: null })),
+  turn: 0,
+  engine: createInitialState(
+    { difficulty, mode: 'classic', rules: DEFAULT_REWARD_RULES, tableSelection: DEFAULT_TABLE_SELECTION, questionTypes: DEFAULT_QUESTION_TYPES, assignment: null },
+    0,
+    null,
+    now,
+  ),
+  question: null,
+  isAnswered: false,
+  pointTo: null,
+  winner: null,
+});
+
+// Whether `player` may still answer the current question
+export const canAnswer = (state: VersusState, player: number): boolean =>
+  !!state.question
+  && !state.isAnswered
+  && state.winner === null
+  && state.players[player]?.selection === null
+  && (state.style === 'split_screen' || state.turn === player);
+
+const answerQuestion = (state: VersusState, player: number, given: number): VersusState => {
+  if (!state.question || !canAnswer(state, player)) return state;
+
+  const correct = given === state.question.answer;
+  const players = state.players.map((p, i) => {
+    if (i === player) {
+      return { ...p, selection: given, score: p.score + (correct ? 1 : 0), streak: correct ? p.streak + 1 : 0 };
+    }
+    // Split screen: beaten to the answer breaks the other player's streak too
+    return correct && state.style === 'split_screen' ? { ...p, streak: 0 } : p;
+  });
+  // A wrong tap in split screen only locks that player out until everyone has tried
+  const isAnswered = correct || state.style === 'hot_seat' || players.every(p => p.selection !== null);
+
+  return {
+    ...state,
+    players,
+    isAnswered,
+    pointTo: correct ? player : null,
+    winner: correct && players[player].score >= VERSUS_TARGET ? player : null,
+    engine: correct ? { ...state.engine, correctAnswersCount: state.engine.correctAnswersCount + 1 } : state.engine,
+  };
+};
+
+export const createVersusReducer = (env: EngineEnv) => (state: VersusState, action: VersusAction): VersusState => {
+  switch (action.type) {
+    case 'next_question': {
+      if (state.winner !== null) return state;
+      const question = generateQuestion(state.engine, {}, env);
+      return {
+        ...state,
+        // Hot seat passes the device after every question
+        turn: state.question && state.style === 'hot_seat' ? (state.turn + 1) % state.players.length : state.turn,
+        players: state.players.map(p => ({ ...p, selection: null })),
+        engine: { ...state.engine, question, lastQuestion: { num1: question.num1, num2: question.num2 } },
+        question,
+        isAnswered: false,
+        pointTo: null,
+      };
+    }
+    case 'answer':
+      return answerQuestion(state, action.player, action.given);
+    default:
+      return state;
+  }
+};
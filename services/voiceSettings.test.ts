@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_SETTINGS, getVoiceChoice, sanitizeVoiceSettings, VOICE_LIMITS } from './voiceSettings';
+
+describe('sanitizeVoiceSettings', () => {
+  it('falls back to the defaults for missing or broken data', () => {
+    expect(sanitizeVoiceSettings(undefined)).toEqual(DEFAULT_VOICE_SETTINGS);
+    expect(sanitizeVoiceSettings('loud')).toEqual(DEFAULT_VOICE_SETTINGS);
+    expect(sanitizeVoiceSettings({ muted: 'yes', voices: 3 })).toEqual(DEFAULT_VOICE_SETTINGS);
+  });
+
+  it('keeps valid choices and clamps out-of-range numbers', () => {
+    const settings = sanitizeVoiceSettings({
+      muted: true,
+      voices: { Hebrew: { voiceName: 'Carmit', rate: 9, pitch: 0.8, volume: -1 } },
+    });
+    expect(settings.muted).toBe(true);
+    expect(getVoiceChoice(settings, 'Hebrew')).toEqual({
+      voiceName: 'Carmit',
+      rate: VOICE_LIMITS.rate.max,
+      pitch: 0.8,
+      volume: VOICE_LIMITS.volume.min,
+    });
+  });
+
+  it('drops choices for languages the game does not offer', () => {
+    const settings = sanitizeVoiceSettings({ voices: { Klingon: { voiceName: 'Worf' }, English: {} } });
+    expect(Object.keys(settings.voices)).toEqual(['English']);
+    expect(getVoiceChoice(settings, 'English')?.voiceName).toBeNull();
+    expect(getVoiceChoice(settings, 'Russian')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { Language, VoiceChoice, VoiceSettings } from '../types';
+import { LANGUAGES } from './i18n';
+
+// ============================================================================
+// VOICE SETTINGS
+// ============================================================================
+
+export const DEFAULT_VOICE_CHOICE: VoiceChoice = {
+  voiceName: null,
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  muted: false,
+  voices: {},
+};
+
+// Same ranges the settings sliders offer
+export const VOICE_LIMITS = {
+  rate: { min: 0.5, max: 1.5 },
+  pitch: { min: 0.5, max: 1.5 },
+  volume: { min: 0, max: 1 },
+  voiceNameLength: 200,
+};
+
+export const getVoiceChoice = (settings: VoiceSettings, language: Language): VoiceChoice | null =>
+  settings.voices[language] ?? null;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const sanitizeVoiceChoice = (value: unknown): VoiceChoice | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  const defaults = DEFAULT_VOICE_CHOICE;
+  return {
+    voiceName: typeof data.voiceName === 'string' && data.voiceName
+      ? data.voiceName.slice(0, VOICE_LIMITS.voiceNameLength)
+      : null,
+    rate: clamp(data.rate, VOICE_LIMITS.rate.min, VOICE_LIMITS.rate.max, defaults.rate),
+    pitch: clamp(data.pitch, VOICE_LIMITS.pitch.min, VOICE_LIMITS.pitch.max, defaults.pitch),
+    volume: clamp(data.volume, VOICE_LIMITS.volume.min, VOICE_LIMITS.volume.max, defaults.volume),
+  };
+};
+
+// Accepts anything (saved data, form input) and returns usable settings.
+// Choices for languages the game no longer offers are dropped.
+export const sanitizeVoiceSettings = (value: unknown): VoiceSettings => {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+  const data = value as Record<string, unknown>;
+  const voices: VoiceSettings['voices'] = {};
+  if (typeof data.voices === 'object' && data.voices !== null) {
+    const saved = data.voices as Record<string, unknown>;
+    for (const language of LANGUAGES) {
+      const choice = sanitizeVoiceChoice(saved[language]);
+      if (choice) {
+        voices[language] = choice;
+      }
+    }
+  }
+  return {
+    muted: data.muted === true,
+    voices,
+  };
+};
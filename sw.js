@@ -1,62 +1,79 @@
-const CACHE_NAME = 'robux-multiplication-cache-v13';
-const urlsToCache = [
-  './',
-  './index.html',
-  './manifest.json',
-  './index.tsx',
-  'https://images.unsplash.com/photo-1614728263952-84ea256ec346?q=80&w=1920&h=1080&auto=format&fit=crop',
-  'https://unpkg.com/@babel/standalone/babel.min.js'
+// Filled in by `npm run build` (see build/serviceWorkerPlugin.ts)
+const PRECACHE_MANIFEST = __PRECACHE_MANIFEST__;
+const CACHE_NAME = 'robux-multiplication-cache-' + __CACHE_VERSION__;
+// Styles and fonts from CDNs, kept across versions and refreshed in the background
+const RUNTIME_CACHE = 'robux-multiplication-runtime';
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const RUNTIME_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Press+Start+2P&display=swap',
 ];
 
-self.addEventListener('install', event => {
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then(cache => {
-        console.log('Opened cache');
-        // Use addAll with a catch to prevent install failure if one asset fails
-        return cache.addAll(urlsToCache).catch(err => {
-          console.error('Failed to cache all URLs:', err);
-        });
-      })
-  );
-});
+// CDN responses are opaque, which cache.add() refuses, so they are stored by hand
+const cacheRuntimeUrl = (cache, url) => {
+  const request = new Request(url, { mode: 'no-cors' });
+  return fetch(request)
+    .then(response => cache.put(request, response))
+    .catch(err => {
+      console.warn('Failed to cache', url, err);
+    });
+};
 
-self.addEventListener('fetch', event => {
-  event.respondWith(
-    caches.match(event.request)
-      .then(response => {
-        // Cache hit - return response
-        if (response) {
+const staleWhileRevalidate = request =>
+  caches.open(RUNTIME_CACHE).then(cache =>
+    cache.match(request).then(cached => {
+      const refresh = fetch(request)
+        .then(response => {
+          if (response && (response.ok || response.type === 'opaque')) {
+            cache.put(request, response.clone());
+          }
           return response;
-        }
+        })
+        .catch(err => {
+          if (cached) return cached;
+          throw err;
+        });
+      return cached || refresh;
+    }));
 
-        // Not in cache - fetch from network
-        return fetch(event.request).then(
-          response => {
-            // Check if we received a valid response
-            if(!response || response.status !== 200 || response.type !== 'basic') {
-              // Don't cache opaque responses or errors
-              return response;
-            }
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    // A missing app file should fail the install so the old version keeps running
+    caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_MANIFEST)),
+    caches.open(RUNTIME_CACHE).then(cache => Promise.all(RUNTIME_URLS.map(url => cacheRuntimeUrl(cache, url)))),
+  ]));
+});
 
-            // Clone the response because it's a stream and can only be consumed once
-            const responseToCache = response.clone();
+// The page asks for this once the player accepts the update prompt
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
 
-            caches.open(CACHE_NAME)
-              .then(cache => {
-                cache.put(event.request, responseToCache);
-              });
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
 
-            return response;
-          }
-        );
-      })
+  if (url.origin === self.location.origin) {
+    // Every page is the app shell, so navigation works offline
+    const lookup = request.mode === 'navigate' ? './index.html' : request;
+    event.respondWith(
+      caches.open(CACHE_NAME)
+        .then(cache => cache.match(lookup))
+        .then(response => response || fetch(request))
     );
-});
+    return;
+  }
 
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
 
 self.addEventListener('activate', event => {
-  const cacheWhitelist = [CACHE_NAME];
+  const cacheWhitelist = [CACHE_NAME, RUNTIME_CACHE];
   event.waitUntil(
     caches.keys().then(cacheNames => {
       return Promise.all(
@@ -69,4 +86,4 @@ self.addEventListener('activate', event => {
       );
     })
   );
-});
\ No newline at end of file
+});
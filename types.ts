@@ -0,0 +1,242 @@
+export type GameState = 'selecting_profile' | 'parent_dashboard' | 'selecting_difficulty' | 'achievements' | 'playing' | 'won' | 'time_up'
+  | 'versus_setup' | 'versus' | 'versus_won' | 'homework' | 'homework_done' | 'homework_tools';
+
+export type GameMode = 'classic' | 'blitz' | 'beat_the_clock';
+
+// Split screen: both players race on the same question. Hot seat: they take turns.
+export type VersusStyle = 'split_screen' | 'hot_seat';
+
+export enum Difficulty {
+  Easy = 'Easy',
+  Moderate = 'Moderate',
+  Hard = 'Hard',
+  // Practice only the times tables the player picked
+  Tables = 'Tables',
+}
+
+// Id of a registered locale catalog (see locales/), e.g. 'Hebrew'
+export type Language = string;
+
+// num1 x num2 is always the underlying fact; the type decides which part is hidden
+export type QuestionType = 'multiplication' | 'division' | 'missing_first' | 'missing_second';
+
+// The common mistake a wrong answer most likely comes from
+export type Misconception =
+  | 'neighbour_fact'     // 7x7 instead of 7x8
+  | 'off_by_one_table'   // 6x8 or 8x8 instead of 7x8
+  | 'added'              // 7+8 instead of 7x8
+  | 'swapped_digits'     // 65 instead of 56
+  | 'previous_answer'    // still answering the last question
+  | 'other_factor'       // 56 / 7 = 7, repeating the number that was shown
+  | 'near_miss'          // close, but no clear pattern
+  | 'other';
+
+export interface AnswerOption {
+  value: number;
+  // null for the correct option
+  misconception: Misconception | null;
+}
+
+export interface Question {
+  num1: number;
+  num2: number;
+  type: QuestionType;
+  answer: number;
+  options: AnswerOption[];
+  // Answer to the question before this one, used to spot the previous_answer mistake
+  previousAnswer: number | null;
+  // Answered in a text field instead of by picking an option
+  typed: boolean;
+}
+
+export interface FactPair {
+  num1: number;
+  num2: number;
+}
+
+export interface TableSelection {
+  tables: number[];
+  // Highest number the tables are multiplied by, null for all the way to 12
+  maxMultiplier: number | null;
+}
+
+// How a homework assignment is answered: the adaptive controller's mix, or one kind only
+export type AssignmentInputMode = 'adaptive' | 'choice' | 'typed';
+
+// A teacher's homework, carried in the link the class opens
+export interface Assignment {
+  // Ties result codes to the assignment they were earned on
+  id: string;
+  title: string;
+  tables: number[];
+  // Highest number the tables are multiplied by, null for all the way to 12
+  maxMultiplier: number | null;
+  questionCount: number;
+  questionTypes: QuestionType[];
+  inputMode: AssignmentInputMode;
+}
+
+// What a finished assignment hands back to the teacher
+export interface HomeworkResult {
+  assignmentId: string;
+  name: string;
+  correct: number;
+  total: number;
+  seconds: number;
+  finishedAt: number;
+}
+
+// One answer as the adaptive difficulty controller remembers it
+export interface RecentAnswer {
+  correct: boolean;
+  responseMs: number;
+}
+
+export interface AdaptiveState {
+  // Continuous difficulty from 0 (1-3 times tables) up to 10 (hard facts, all typed)
+  level: number;
+  // The last few answers, oldest first
+  recent: RecentAnswer[];
+}
+
+// Everything GameScreen needs to pick up a game where it left off.
+export interface GameProgress {
+  correctStreak: number;
+  wrongStreak: number;
+  correctAnswersCount: number;
+  adaptive: AdaptiveState;
+  lastQuestion: FactPair | null;
+  introDismissed: boolean;
+  // Groups answers in the parent dashboard's per-session charts
+  sessionStartedAt: number;
+  // Time left on the blitz countdown
+  timeLeftMs: number;
+}
+
+export type InputMode = 'choice' | 'typed' | 'voice';
+
+// What GameScreen reports each time the player answers a question
+export interface AnswerEvent {
+  num1: number;
+  num2: number;
+  type: QuestionType;
+  // null when a timed question ran out before an answer was given
+  given: number | null;
+  inputMode: InputMode;
+  correct: boolean;
+  responseMs: number;
+  scoreAfter: number;
+  // null when the answer was correct
+  misconception: Misconception | null;
+}
+
+export interface AnswerRecord extends AnswerEvent {
+  sessionStartedAt: number;
+  answeredAt: number;
+}
+
+export interface FactStats {
+  attempts: number;
+  correct: number;
+  averageResponseMs: number;
+  box: number;
+  lastSeenAt: number;
+  dueAt: number;
+}
+
+// Keyed by getFactKey, so 7x8 and 8x7 share one entry
+export type MasteryMap = Record<string, FactStats>;
+
+export interface PenaltyTier {
+  // The penalty applies once the score reaches this amount
+  minScore: number;
+  penalty: number;
+}
+
+// Everything a parent can tune about how the reward is earned
+export interface RewardRules {
+  targetAmount: number;
+  rewardName: string;
+  pointsPerCorrect: number;
+  penaltyTiers: PenaltyTier[];
+  typedModeThreshold: number;
+}
+
+// A parent's choice of voice for one language
+export interface VoiceChoice {
+  // null lets the game pick the most natural voice it can find
+  voiceName: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface VoiceSettings {
+  // Turns off everything the game reads aloud
+  muted: boolean;
+  // Languages without a choice keep the automatic voice
+  voices: Partial<Record<Language, VoiceChoice>>;
+}
+
+// Game sounds, apart from the voice reading questions aloud
+export interface SoundSettings {
+  muted: boolean;
+  effectsVolume: number;
+  // Background music is off unless a parent turns it on
+  music: boolean;
+  musicVolume: number;
+}
+
+// 'system' follows the device's reduced-motion setting
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+export interface AccessibilitySettings {
+  // Marks right and wrong answers with icons and colors that don't rely on red/green
+  colorBlindFeedback: boolean;
+  motion: MotionPreference;
+}
+
+// A visual skin: currency, background, characters, colors and celebration
+export type ThemeId = 'robux' | 'space' | 'animals' | 'plain';
+
+// Best result per mode, see GAME_MODES for what each number means
+export type PersonalBests = Partial<Record<GameMode, number>>;
+
+export interface GameRecord {
+  mode: GameMode;
+  difficulty: Difficulty;
+  language: Language;
+  robuxScore: number;
+  won: boolean;
+  finishedAt: number;
+}
+
+export type AchievementId = 'first_win' | 'streak_10' | 'typed_20' | 'comeback' | 'mastered_7s' | 'first_russian_game';
+
+// When each badge was earned
+export type UnlockedAchievements = Partial<Record<AchievementId, number>>;
+
+// A child's player profile. Each one keeps its own game, settings and history.
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string;
+  gameState: GameState;
+  mode: GameMode;
+  difficulty: Difficulty;
+  language: Language;
+  robuxScore: number;
+  progress: GameProgress | null;
+  history: GameRecord[];
+  personalBests: PersonalBests;
+  tableSelection: TableSelection;
+  questionTypes: QuestionType[];
+  mastery: MasteryMap;
+  answers: AnswerRecord[];
+  rules: RewardRules;
+  voice: VoiceSettings;
+  achievements: UnlockedAchievements;
+  accessibility: AccessibilitySettings;
+  theme: ThemeId;
+  sound: SoundSettings;
+}
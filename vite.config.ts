@@ -1,15 +1,19 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorkerPlugin } from './build/serviceWorkerPlugin';
+import { clipManifestPlugin } from './build/clipManifestPlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Relative URLs, like the ones sw.js precaches, so the app works from any folder
+      base: './',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), clipManifestPlugin(), serviceWorkerPlugin(path.resolve(__dirname, 'sw.js'))],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)